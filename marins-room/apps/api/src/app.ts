@@ -52,10 +52,13 @@ import helmet from "helmet";
 
 import { env } from "./config/env.js";
 import { logger } from "./lib/logger.js";
+import { ALLOWED_ORIGINS } from "./lib/origins.js";
 import { chatRouter } from "./routes/chat.js";
 import { donationsRouter } from "./routes/donations.js";
 import { healthRouter } from "./routes/health.js";
 import { paymentsRouter } from "./routes/payments.js";
+import { promptsRouter } from "./routes/prompts.js";
+import { savedRepliesRouter } from "./routes/savedReplies.js";
 import { uploadsRouter } from "./routes/uploads.js";
 import { videosRouter } from "./routes/videos.js";
 import { stripeWebhookRouter } from "./routes/webhooks/stripe.js";
@@ -101,7 +104,8 @@ app.use(helmet());
  * CORS headers tell the browser "it's okay, I trust this origin."
  *
  * Configuration:
- *   - origin: env.WEB_ORIGIN → Only allow requests from our web app
+ *   - origin: ALLOWED_ORIGINS → Only allow requests from our web app
+ *     (WEB_ORIGIN) and the sites embedding the chat widget (EMBED_ORIGINS)
  *   - credentials: true → Allow cookies and auth headers
  *
  * WHY RESTRICT ORIGINS?
@@ -111,7 +115,7 @@ app.use(helmet());
  */
 app.use(
   cors({
-    origin: env.WEB_ORIGIN,
+    origin: ALLOWED_ORIGINS,
     credentials: true,
   })
 );
@@ -192,6 +196,8 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
  *   /uploads/*    → Getting signed URLs for video uploads
  *   /videos/*     → Video management
  *   /chat/*       → Chat session and message management
+ *   /chat/saved-replies/* → Marin's saved reply library (admin)
+ *   /chat/prompts/*       → Versions of the AI's system prompt (admin)
  *
  * The routers are imported from ./routes/*.ts files.
  */
@@ -200,6 +206,8 @@ app.use("/payments", paymentsRouter);
 app.use("/donations", donationsRouter);
 app.use("/uploads", uploadsRouter);
 app.use("/videos", videosRouter);
+app.use("/chat/saved-replies", savedRepliesRouter);
+app.use("/chat/prompts", promptsRouter);
 app.use("/chat", chatRouter);
 
 /**
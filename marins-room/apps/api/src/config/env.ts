@@ -88,6 +88,29 @@ const envSchema = z.object({
    */
   WEB_ORIGIN: z.string().url().default("http://localhost:3000"),
 
+  /**
+   * EMBED_ORIGINS - Comma-separated sites allowed to embed the chat widget
+   *
+   * Each is allowed through CORS and WebSocket origin checks next to
+   * WEB_ORIGIN. Visitors on these sites get their visitor token in the
+   * response instead of a cookie (browsers don't send our cookie from
+   * another site). Leave empty to keep the chat on our own site.
+   *
+   * Example: "https://friend.example,https://shop.example"
+   */
+  EMBED_ORIGINS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string().url()))
+    // "https://friend.example/" and "https://friend.example" are the same site
+    .transform((origins) => origins.map((origin) => new URL(origin).origin)),
+
   // =========================================================================
   // DATABASE
   // =========================================================================
@@ -130,6 +153,19 @@ const envSchema = z.object({
    */
   ADMIN_API_KEY: z.string().min(32),
 
+  /**
+   * VISITOR_TOKEN_SECRET - Secret for signing chat visitor tokens
+   *
+   * Visitors get a signed, httpOnly cookie when they start a chat. It is
+   * how we know which chat sessions are theirs.
+   *
+   * SECURITY:
+   *   - Must be at least 32 characters
+   *   - Changing it logs every visitor out of their past chats
+   *   - Generate with: openssl rand -hex 32
+   */
+  VISITOR_TOKEN_SECRET: z.string().min(32),
+
   // =========================================================================
   // STRIPE (Payment Processing)
   // =========================================================================
@@ -201,26 +237,171 @@ const envSchema = z.object({
   // =========================================================================
 
   /**
-   * AI_API_URL - The AI API endpoint URL
+   * AI_PROVIDER - Which AI backend answers chat messages
    *
-   * Default is OpenAI, but can be any compatible API:
-   *   - OpenAI: https://api.openai.com/v1
-   *   - Azure OpenAI: https://xxx.openai.azure.com
-   *   - Local models: http://localhost:11434/v1 (Ollama)
+   * Values:
+   *   - openai: Any OpenAI-compatible /chat/completions API
+   *   - anthropic: Anthropic-style /messages API
+   *   - ollama: A local Ollama server (no API key needed)
+   *   - mock: Built-in canned replies, for offline development and tests
    */
-  AI_API_URL: z.string().url().default("https://api.openai.com/v1"),
+  AI_PROVIDER: z.enum(["openai", "anthropic", "ollama", "mock"]).default("openai"),
+
+  /**
+   * AI_API_URL - The AI API base URL
+   *
+   * Optional - each provider falls back to its usual endpoint:
+   *   - openai: https://api.openai.com/v1
+   *     (also Azure OpenAI, OpenRouter, vLLM, ...)
+   *   - anthropic: https://api.anthropic.com/v1
+   *   - ollama: http://localhost:11434
+   */
+  AI_API_URL: z.string().url().optional(),
 
   /**
    * AI_API_KEY - API key for the AI service
+   *
+   * Required for the openai and anthropic providers, ignored by the others.
    */
-  AI_API_KEY: z.string().min(1),
+  AI_API_KEY: z.string().min(1).optional(),
 
   /**
    * AI_MODEL - Which model to use for chat responses
    *
-   * Examples: gpt-4o-mini, gpt-4o, claude-3-sonnet, etc.
+   * Examples: gpt-4o-mini, gpt-4o, claude-3-5-haiku-latest, llama3.1, etc.
    */
   AI_MODEL: z.string().default("gpt-4o-mini"),
+
+  /**
+   * AI_CONTEXT_TOKENS - Token budget for conversation history in each prompt
+   *
+   * Optional - defaults to a budget based on AI_MODEL.
+   * Older turns beyond the budget are folded into a rolling summary.
+   */
+  AI_CONTEXT_TOKENS: z.coerce.number().int().min(500).optional(),
+
+  /**
+   * AI_VISION - Whether AI_MODEL can look at images
+   *
+   * Set to "true" for vision models (gpt-4o, claude-3-5-sonnet, ...) to
+   * show them images visitors attach to chat messages. Only the openai and
+   * anthropic providers send images; otherwise attachments never reach
+   * the AI.
+   */
+  AI_VISION: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+
+  /**
+   * AI_TIMEOUT_MS - How long to wait for the AI service
+   *
+   * For a complete reply, or between streamed tokens. A request that takes
+   * longer is cancelled and counts as a failure.
+   */
+  AI_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
+
+  /**
+   * AI_MAX_RETRIES - Extra attempts after a failed AI request
+   *
+   * Retries back off (0.5s, 1s, 2s, ...). A streamed reply is only retried
+   * if nothing had reached the visitor yet.
+   */
+  AI_MAX_RETRIES: z.coerce.number().int().min(0).max(5).default(2),
+
+  /**
+   * AI_BREAKER_THRESHOLD / AI_BREAKER_COOLDOWN_MS - Circuit breaker
+   *
+   * After AI_BREAKER_THRESHOLD failed replies in a row the AI service is
+   * treated as down: visitors get AI_FALLBACK_MESSAGE straight away instead
+   * of waiting on it. After AI_BREAKER_COOLDOWN_MS one request is let
+   * through to check whether it has recovered.
+   */
+  AI_BREAKER_THRESHOLD: z.coerce.number().int().min(1).default(5),
+  AI_BREAKER_COOLDOWN_MS: z.coerce.number().int().min(1000).default(30000),
+
+  /**
+   * AI_FALLBACK_MESSAGE - What visitors see when the AI can't answer
+   *
+   * Saved as a SYSTEM message. The session is also tagged "follow-up" and
+   * raised to HIGH priority so Marin gets back to the visitor.
+   */
+  AI_FALLBACK_MESSAGE: z
+    .string()
+    .min(1)
+    .default(
+      "Sorry, the assistant can't answer right now. Marin has been notified and will get back to you."
+    ),
+
+  /**
+   * AI_SESSION_TOKEN_CAP / AI_DAILY_TOKEN_CAP - Limits on AI token usage
+   *
+   * Optional - no limit when unset. Counts prompt plus completion tokens,
+   * per chat session and per UTC day across all sessions, of every kind of
+   * AI call (UsageKind):
+   *   - REPLY: the assistant's replies, tool rounds included
+   *   - SUMMARY: rolling summaries of long conversations
+   *   - TRANSLATION: messages translated for Marin, and Marin's replies
+   *     translated for the visitor
+   * Once a cap is reached, new messages get AI_FALLBACK_MESSAGE and are
+   * flagged for follow-up instead of calling the AI, and translations are
+   * refused.
+   */
+  AI_SESSION_TOKEN_CAP: z.coerce.number().int().min(1).optional(),
+  AI_DAILY_TOKEN_CAP: z.coerce.number().int().min(1).optional(),
+
+  /**
+   * BLOG_CONTENT_DIR - Where the MDX blog posts live
+   *
+   * Read by the knowledge indexing job so the chat assistant can answer
+   * from (and link to) blog posts. Relative paths resolve from the
+   * directory the API is started in (apps/api).
+   */
+  BLOG_CONTENT_DIR: z.string().default("../web/content/blog"),
+
+  // =========================================================================
+  // CHAT MODERATION
+  // =========================================================================
+
+  /**
+   * MODERATION_REDACT_PII - Hide emails, phone numbers and card numbers
+   * from the AI
+   *
+   * Visitor messages are stored as written (Marin can still read them);
+   * only the copy sent to the AI provider is redacted. Set to "false" to
+   * send messages unchanged. Messages with PII are always flagged.
+   */
+  MODERATION_REDACT_PII: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+
+  /**
+   * MODERATION_PROFANITY - What to do with profanity in visitor messages
+   *
+   * Values:
+   *   - flag: Keep the message, flag it for review (default)
+   *   - mask: Replace the words with asterisks, and flag it
+   *   - block: Reject the message
+   *   - off: Don't check
+   */
+  MODERATION_PROFANITY: z.enum(["flag", "mask", "block", "off"]).default("flag"),
+
+  /**
+   * MODERATION_BLOCKLIST - Comma-separated words or phrases that get a
+   * visitor message rejected outright (case-insensitive, whole words)
+   *
+   * Example: "casino bonus,buy followers"
+   */
+  MODERATION_BLOCKLIST: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((term) => term.trim())
+        .filter(Boolean)
+    ),
 });
 
 /**
@@ -233,7 +414,9 @@ const envSchema = z.object({
  * 3. If any fail validation:
  *    - Log which variables are invalid
  *    - Throw an error (stops server startup)
- * 4. If all pass:
+ * 4. Check rules that involve more than one variable
+ *    (e.g. AI_API_KEY is only required by hosted AI providers)
+ * 5. If all pass:
  *    - Return the validated, typed object
  *
  * WHY safeParse?
@@ -252,6 +435,13 @@ function validateEnv() {
     throw new Error("Invalid environment variables");
   }
 
+  const { AI_PROVIDER, AI_API_KEY } = parsed.data;
+  if ((AI_PROVIDER === "openai" || AI_PROVIDER === "anthropic") && !AI_API_KEY) {
+    console.error("❌ Invalid environment variables:");
+    console.error({ AI_API_KEY: [`Required when AI_PROVIDER is "${AI_PROVIDER}"`] });
+    throw new Error("Invalid environment variables");
+  }
+
   // Return validated data with proper TypeScript types
   return parsed.data;
 }
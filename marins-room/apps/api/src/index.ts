@@ -73,7 +73,8 @@ import { app } from "./app.js";
 import { env } from "./config/env.js";
 import { logger } from "./lib/logger.js";
 import { prisma } from "./lib/prisma.js";
-import { redis } from "./lib/redis.js";
+import { redis, redisSubscriber } from "./lib/redis.js";
+import { ensureChatSearchIndex } from "./lib/sessionSearch.js";
 import { setupWebSocket } from "./websocket/index.js";
 
 /**
@@ -93,6 +94,8 @@ import { setupWebSocket } from "./websocket/index.js";
  * 2. SETUP WEBSOCKET
  *    - Attach WebSocket server to HTTP server
  *    - Clients connect via ws://localhost:4000/ws/chat
+ *    - Also make sure the chat search index exists (Prisma can't
+ *      declare it, see lib/sessionSearch.ts)
  *
  * 3. DEFINE SHUTDOWN HANDLER
  *    - Handles SIGINT (Ctrl+C) and SIGTERM (kill command)
@@ -122,6 +125,7 @@ async function main() {
   // WebSocket allows real-time bidirectional communication
   // Used for chat feature - messages appear instantly without refreshing
   setupWebSocket(server);
+  await ensureChatSearchIndex();
 
   /**
    * shutdown() - Clean shutdown function
@@ -167,8 +171,8 @@ async function main() {
     await prisma.$disconnect();
     logger.info("Database connection closed");
 
-    // Close Redis connection
-    await redis.quit();
+    // Close Redis connections (commands and chat pub/sub)
+    await Promise.all([redis.quit(), redisSubscriber.quit()]);
     logger.info("Redis connection closed");
 
     // Exit with success code
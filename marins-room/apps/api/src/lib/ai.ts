@@ -1,67 +1,177 @@
 import { env } from "../config/env.js";
-import { logger } from "./logger.js";
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+import { createAnthropicProvider } from "./ai/anthropic.js";
+import { createGuardedProvider, type BreakerStatus, type GuardedAIProvider } from "./ai/breaker.js";
+import { createMockProvider } from "./ai/mock.js";
+import { createOllamaProvider } from "./ai/ollama.js";
+import { createOpenAIProvider } from "./ai/openai.js";
+import type {
+  AIChatMessage,
+  AIProvider,
+  AIResponse,
+  AIStreamOptions,
+  AIToolDefinition,
+} from "./ai/types.js";
 
-interface AIResponse {
-  content: string;
-  error?: string;
-}
+export type {
+  AIChatMessage,
+  AIProvider,
+  AIResponse,
+  AIStreamOptions,
+  AIToolCall,
+  AIToolDefinition,
+  AIUsage,
+} from "./ai/types.js";
 
-const SYSTEM_PROMPT = `You are Marin's AI assistant on their personal website "Marin's Room". You are friendly, helpful, and conversational. You can help visitors learn more about Marin, answer questions about the website, or just have a pleasant chat.
+// Built-in prompt, used until an admin activates a prompt version (see
+// prompts.ts)
+export const SYSTEM_PROMPT = `You are Marin's AI assistant on their personal website "Marin's Room". You are friendly, helpful, and conversational. You can help visitors learn more about Marin, answer questions about the website, or just have a pleasant chat.
 
 Keep your responses concise but warm. If asked about personal details you don't know, politely explain that you're an AI assistant and suggest they reach out to Marin directly.
 
 Never share sensitive information or make up facts about Marin. Be helpful, positive, and engaging.`;
 
+const SUMMARY_PROMPT = `You maintain a running summary of a chat between a website visitor and an AI assistant. Combine the previous summary (if any) with the new transcript into one short summary of at most 150 words. Keep names, questions asked, facts the visitor shared and anything promised to them. Write in the third person and output only the summary.`;
+
+const TRANSLATE_PROMPT = `You translate messages from a chat on Marin's personal website. Translate the message into the requested language, keeping its meaning, tone, names, links and formatting. If it is already in that language, return it unchanged. Output only the translation, with no notes or quotes.`;
+
+const MAX_TOKENS = 500;
+const TEMPERATURE = 0.7;
+const SUMMARY_MAX_TOKENS = 300;
+// Chat messages are capped at 4000 characters; leave room for longer scripts
+const TRANSLATE_MAX_TOKENS = 2000;
+
+function createProvider(): AIProvider {
+  const config = {
+    baseUrl: env.AI_API_URL,
+    apiKey: env.AI_API_KEY,
+    model: env.AI_MODEL,
+  };
+
+  switch (env.AI_PROVIDER) {
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "ollama":
+      return createOllamaProvider(config);
+    case "mock":
+      return createMockProvider();
+    case "openai":
+    default:
+      return createOpenAIProvider(config);
+  }
+}
+
+let provider: GuardedAIProvider | null = null;
+
+// Providers whose adapter can send images (see AIChatMessage.images)
+const IMAGE_PROVIDERS = ["openai", "anthropic"];
+
+/**
+ * Whether images attached to chat messages should be shown to the AI:
+ * the model is marked as vision-capable (AI_VISION) and the provider's
+ * adapter can send them.
+ */
+export function supportsImages(): boolean {
+  return env.AI_VISION && IMAGE_PROVIDERS.includes(env.AI_PROVIDER);
+}
+
+/**
+ * Returns the provider selected by `AI_PROVIDER`, created on first use.
+ * Calls go through a circuit breaker with timeouts and retries (see
+ * ai/breaker.ts).
+ */
+export function getAIProvider(): GuardedAIProvider {
+  if (!provider) {
+    provider = createGuardedProvider(createProvider(), {
+      timeoutMs: env.AI_TIMEOUT_MS,
+      maxRetries: env.AI_MAX_RETRIES,
+      failureThreshold: env.AI_BREAKER_THRESHOLD,
+      cooldownMs: env.AI_BREAKER_COOLDOWN_MS,
+    });
+  }
+  return provider;
+}
+
+/**
+ * The circuit breaker's state on this instance, for the health check.
+ */
+export function getAIBreakerStatus(): BreakerStatus {
+  return getAIProvider().status();
+}
+
+export interface ReplyOptions {
+  // Extra system instructions for this reply only (e.g. retrieved passages)
+  instructions?: string;
+  // Tools the model may call; the caller runs them and continues the reply
+  tools?: AIToolDefinition[];
+  // The session's system prompt (defaults to SYSTEM_PROMPT)
+  systemPrompt?: string;
+}
+
+function buildRequest(
+  messages: AIChatMessage[],
+  { instructions, tools, systemPrompt = SYSTEM_PROMPT }: ReplyOptions
+) {
+  return {
+    system: instructions ? `${systemPrompt}\n\n${instructions}` : systemPrompt,
+    messages,
+    tools,
+    maxTokens: MAX_TOKENS,
+    temperature: TEMPERATURE,
+  };
+}
+
 export async function getAIResponse(
-  messages: ChatMessage[]
+  messages: AIChatMessage[],
+  options: ReplyOptions = {}
 ): Promise<AIResponse> {
-  try {
-    const response = await fetch(`${env.AI_API_URL}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${env.AI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: env.AI_MODEL,
-        messages: [{ role: "system", content: SYSTEM_PROMPT }, ...messages],
-        max_tokens: 500,
-        temperature: 0.7,
-      }),
-    });
+  return getAIProvider().complete(buildRequest(messages, options));
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      logger.error("AI API error:", error);
-      return {
-        content: "",
-        error: "Failed to get AI response",
-      };
-    }
-
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      return {
-        content: "",
-        error: "Empty AI response",
-      };
-    }
-
-    return { content };
-  } catch (error) {
-    logger.error("AI request failed:", error);
-    return {
-      content: "",
-      error: "AI service unavailable",
-    };
-  }
+/**
+ * Streams a completion, calling `onToken` for every content delta as it
+ * arrives. Resolves with the full reply once the stream ends.
+ *
+ * Aborting `signal` cancels the upstream request; whatever was generated up
+ * to that point is returned with `aborted: true`.
+ */
+export async function streamAIResponse(
+  messages: AIChatMessage[],
+  options: AIStreamOptions & ReplyOptions
+): Promise<AIResponse> {
+  return getAIProvider().stream(buildRequest(messages, options), options);
+}
+
+/**
+ * Folds older conversation turns into a rolling summary so they can be
+ * dropped from the prompt without losing their gist.
+ */
+export async function summarizeConversation(
+  previousSummary: string | null,
+  messages: AIChatMessage[]
+): Promise<AIResponse> {
+  const transcript = messages.map((m) => `${m.role}: ${m.content}`).join("\n");
+  const content = previousSummary
+    ? `Previous summary:\n${previousSummary}\n\nNew transcript:\n${transcript}`
+    : `Transcript:\n${transcript}`;
+
+  return getAIProvider().complete({
+    system: SUMMARY_PROMPT,
+    messages: [{ role: "user", content }],
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.2,
+  });
+}
+
+/**
+ * Translates a chat message into `language` (an English language name,
+ * e.g. "Spanish").
+ */
+export async function translateText(text: string, language: string): Promise<AIResponse> {
+  return getAIProvider().complete({
+    system: TRANSLATE_PROMPT,
+    messages: [{ role: "user", content: `Translate into ${language}:\n\n${text}` }],
+    maxTokens: TRANSLATE_MAX_TOKENS,
+    temperature: 0.2,
+  });
 }
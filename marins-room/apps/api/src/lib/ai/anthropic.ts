@@ -0,0 +1,251 @@
+import { logger } from "../logger.js";
+
+import { consumeStream, parseSseData, parseToolArguments } from "./stream.js";
+import type {
+  AICompletionRequest,
+  AIProvider,
+  AIProviderConfig,
+  AIToolCall,
+  AIUsage,
+} from "./types.js";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const API_VERSION = "2023-06-01";
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+function toUsage(usage: AnthropicUsage | undefined): AIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.input_tokens ?? 0,
+    completionTokens: usage.output_tokens ?? 0,
+  };
+}
+
+/**
+ * The messages API takes the system prompt as a separate field and requires
+ * the conversation to start with a user turn and alternate roles. System
+ * messages in the history are folded into the system prompt and consecutive
+ * turns from the same role are merged. Tool results are sent as user turns.
+ */
+function toAnthropicMessages(request: AICompletionRequest) {
+  const systemParts = [request.system];
+  const messages: Array<{ role: "user" | "assistant"; content: AnthropicBlock[] }> = [];
+
+  for (const message of request.messages) {
+    if (message.role === "system") {
+      systemParts.push(message.content);
+      continue;
+    }
+
+    const role = message.role === "assistant" ? "assistant" : "user";
+    const blocks: AnthropicBlock[] = [];
+
+    if (message.role === "tool") {
+      blocks.push({
+        type: "tool_result",
+        tool_use_id: message.toolCallId ?? "",
+        content: message.content,
+      });
+    } else if (message.content) {
+      blocks.push({ type: "text", text: message.content });
+    }
+
+    for (const url of message.images ?? []) {
+      blocks.push({ type: "image", source: { type: "url", url } });
+    }
+
+    for (const call of message.toolCalls ?? []) {
+      blocks.push({ type: "tool_use", id: call.id, name: call.name, input: call.arguments });
+    }
+
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  }
+
+  while (messages.length > 0 && messages[0]!.role !== "user") {
+    messages.shift();
+  }
+
+  return { system: systemParts.join("\n\n"), messages };
+}
+
+/**
+ * Anthropic-style `/messages` adapter.
+ */
+export function createAnthropicProvider(config: AIProviderConfig): AIProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  const post = (request: AICompletionRequest, stream: boolean, signal?: AbortSignal) => {
+    const { system, messages } = toAnthropicMessages(request);
+
+    return fetch(`${baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": config.apiKey ?? "",
+        "anthropic-version": API_VERSION,
+      },
+      body: JSON.stringify({
+        model: config.model,
+        system,
+        messages,
+        tools: request.tools?.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+      }),
+      signal,
+    });
+  };
+
+  return {
+    name: "anthropic",
+
+    async complete(request, { signal } = {}) {
+      try {
+        const response = await post(request, false, signal);
+
+        if (!response.ok) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        const data = (await response.json()) as {
+          content?: AnthropicBlock[];
+          usage?: AnthropicUsage;
+        };
+        const blocks = data.content ?? [];
+        const content = blocks.map((block) => (block.type === "text" ? block.text : "")).join("");
+        const toolCalls = blocks.flatMap((block): AIToolCall[] =>
+          block.type === "tool_use"
+            ? [{ id: block.id, name: block.name, arguments: block.input ?? {} }]
+            : []
+        );
+        const usage = toUsage(data.usage);
+
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        logger.error("AI request failed:", error);
+        return { content: "", error: "AI service unavailable" };
+      }
+    },
+
+    async stream(request, { signal, onToken }) {
+      let content = "";
+      // message_start carries the prompt tokens, message_delta the output so far
+      const usage: AIUsage = { promptTokens: 0, completionTokens: 0 };
+      // tool_use blocks stream their input as partial JSON, keyed by block index
+      const partialCalls = new Map<number, { id: string; name: string; json: string }>();
+
+      try {
+        const response = await post(request, true, signal);
+
+        if (!response.ok || !response.body) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        await consumeStream(
+          response.body,
+          (line) => {
+            const data = parseSseData(line);
+            if (!data) return null;
+
+            const event = JSON.parse(data) as {
+              type?: string;
+              index?: number;
+              content_block?: { type?: string; id?: string; name?: string };
+              delta?: { type?: string; text?: string; partial_json?: string };
+              message?: { usage?: AnthropicUsage };
+              usage?: AnthropicUsage;
+            };
+
+            if (event.type === "message_start" && event.message?.usage) {
+              usage.promptTokens = event.message.usage.input_tokens ?? 0;
+              usage.completionTokens = event.message.usage.output_tokens ?? 0;
+              return null;
+            }
+
+            if (event.type === "message_delta" && event.usage) {
+              usage.completionTokens = event.usage.output_tokens ?? usage.completionTokens;
+              return null;
+            }
+
+            if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+              partialCalls.set(event.index ?? 0, {
+                id: event.content_block.id ?? "",
+                name: event.content_block.name ?? "",
+                json: "",
+              });
+              return null;
+            }
+
+            if (event.type !== "content_block_delta") return null;
+
+            if (event.delta?.type === "input_json_delta") {
+              const call = partialCalls.get(event.index ?? 0);
+              if (call) call.json += event.delta.partial_json ?? "";
+              return null;
+            }
+
+            return event.delta?.type === "text_delta" ? (event.delta.text ?? null) : null;
+          },
+          (delta) => {
+            content += delta;
+            onToken(delta);
+          }
+        );
+
+        const toolCalls = [...partialCalls.values()].map((call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: parseToolArguments(call.json),
+        }));
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        if (signal?.aborted) {
+          return { content, aborted: true };
+        }
+
+        logger.error("AI stream failed:", error);
+        return { content, error: "AI service unavailable" };
+      }
+    },
+  };
+}
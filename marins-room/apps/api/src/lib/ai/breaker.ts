@@ -0,0 +1,199 @@
+import { logger } from "../logger.js";
+
+import type { AIProvider, AIResponse } from "./types.js";
+
+export type BreakerState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface BreakerOptions {
+  // Per attempt; for streams, the longest wait for the next token
+  timeoutMs: number;
+  // Extra attempts after a failure (streams only retry before any token)
+  maxRetries: number;
+  // Consecutive failed calls that open the breaker
+  failureThreshold: number;
+  // How long it stays open before letting one trial call through
+  cooldownMs: number;
+}
+
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+export interface GuardedAIProvider extends AIProvider {
+  status(): BreakerStatus;
+}
+
+// Delay before retry n is RETRY_BASE_MS * 2^n
+const RETRY_BASE_MS = 500;
+
+const UNAVAILABLE: AIResponse = { content: "", error: "AI service unavailable" };
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wraps a provider with timeouts, retries and a circuit breaker.
+ *
+ * After `failureThreshold` calls in a row fail (each after its retries),
+ * the breaker opens and calls fail straight away instead of waiting on a
+ * provider that is down. Once `cooldownMs` has passed, one call is let
+ * through: if it succeeds the breaker closes, otherwise it opens again.
+ *
+ * Only transport and API errors count as failures: calls the caller aborts
+ * and empty answers (the provider is up, it just said nothing) are neither
+ * retried nor counted. The state is per API instance.
+ */
+export function createGuardedProvider(
+  provider: AIProvider,
+  options: BreakerOptions
+): GuardedAIProvider {
+  let state: BreakerState = "CLOSED";
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let lastError: string | null = null;
+  let trialInFlight = false;
+
+  // Whether a call may go to the provider; moves OPEN to HALF_OPEN once
+  // the cooldown is over
+  const admit = () => {
+    if (state === "OPEN" && openedAt !== null && Date.now() - openedAt >= options.cooldownMs) {
+      state = "HALF_OPEN";
+      logger.info(`AI circuit breaker half-open; trying ${provider.name} again`);
+    }
+    if (state === "CLOSED") return true;
+    if (state === "HALF_OPEN" && !trialInFlight) {
+      trialInFlight = true;
+      return true;
+    }
+    return false;
+  };
+
+  const record = (result: AIResponse) => {
+    if (state === "HALF_OPEN") trialInFlight = false;
+    if (result.aborted) return;
+
+    if (!result.error || result.empty) {
+      if (state !== "CLOSED") {
+        logger.info(`AI circuit breaker closed; ${provider.name} is answering again`);
+      }
+      state = "CLOSED";
+      consecutiveFailures = 0;
+      openedAt = null;
+      return;
+    }
+
+    consecutiveFailures += 1;
+    lastError = result.error;
+    if (state === "HALF_OPEN" || consecutiveFailures >= options.failureThreshold) {
+      if (state !== "OPEN") {
+        logger.error(
+          `AI circuit breaker open after ${consecutiveFailures} failed calls: ${result.error}`
+        );
+      }
+      state = "OPEN";
+      openedAt = Date.now();
+    }
+  };
+
+  // Runs one attempt with a timer that aborts it. `touch` restarts the
+  // timer (for streams, on every token).
+  const attempt = async (
+    run: (signal: AbortSignal, touch: () => void) => Promise<AIResponse>,
+    callerSignal?: AbortSignal
+  ): Promise<AIResponse> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeoutMs);
+    };
+
+    const onCallerAbort = () => controller.abort();
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    touch();
+
+    try {
+      const result = await run(controller.signal, touch);
+      if (timedOut) {
+        logger.error(`AI request to ${provider.name} timed out after ${options.timeoutMs}ms`);
+        return { content: result.content, error: "AI request timed out" };
+      }
+      return result;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  };
+
+  // Retries failed attempts with backoff while `canRetry` allows it
+  const call = async (
+    runAttempt: () => Promise<AIResponse>,
+    canRetry: () => boolean
+  ): Promise<AIResponse> => {
+    if (!admit()) return { ...UNAVAILABLE };
+
+    let result = await runAttempt();
+    for (let retry = 0; retry < options.maxRetries; retry++) {
+      if (!result.error || result.empty || result.aborted || !canRetry()) break;
+
+      logger.warn(`AI request failed (${result.error}); retrying`);
+      await sleep(RETRY_BASE_MS * 2 ** retry);
+      result = await runAttempt();
+    }
+
+    record(result);
+    return result;
+  };
+
+  return {
+    name: provider.name,
+
+    complete(request, { signal } = {}) {
+      return call(
+        () =>
+          attempt((attemptSignal) => provider.complete(request, { signal: attemptSignal }), signal),
+        () => !signal?.aborted
+      );
+    },
+
+    stream(request, { signal, onToken }) {
+      let streamed = false;
+
+      return call(
+        () =>
+          attempt(
+            (attemptSignal, touch) =>
+              provider.stream(request, {
+                signal: attemptSignal,
+                onToken: (delta) => {
+                  streamed = true;
+                  touch();
+                  onToken(delta);
+                },
+              }),
+            signal
+          ),
+        // The visitor has seen the partial reply; a retry would repeat it
+        () => !streamed && !signal?.aborted
+      );
+    },
+
+    status() {
+      return {
+        state,
+        consecutiveFailures,
+        openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+        lastError,
+      };
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import type { AICompletionRequest, AIProvider, AIResponse, AIToolCall } from "./types.js";
+
+// Pause between streamed words so the UI behaves like a real model
+const TOKEN_DELAY_MS = 15;
+
+// Keywords that make the mock call a tool, when that tool is offered
+const TOOL_TRIGGERS: Array<{
+  pattern: RegExp;
+  tool: string;
+  args: (match: RegExpMatchArray) => Record<string, unknown>;
+}> = [
+  {
+    pattern: /\bvideos?\b(?:\s+about\s+(\w+))?/i,
+    tool: "search_videos",
+    args: (m) => ({ query: m[1] ?? "" }),
+  },
+  {
+    pattern: /\bposts?\s+(?:about|tagged)\s+(\w+)/i,
+    tool: "find_posts_by_tag",
+    args: (m) => ({ tag: m[1] }),
+  },
+  { pattern: /\bdonat(?:e|ion)\b/i, tool: "start_donation", args: () => ({ amount: 500 }) },
+];
+
+/**
+ * Picks a tool call for the latest user message, unless the model has
+ * already called tools since that message.
+ */
+function pickToolCall(request: AICompletionRequest): AIToolCall | null {
+  const last = request.messages[request.messages.length - 1];
+  if (!request.tools?.length || last?.role !== "user") return null;
+
+  for (const trigger of TOOL_TRIGGERS) {
+    const match = last.content.match(trigger.pattern);
+    if (match && request.tools.some((tool) => tool.name === trigger.tool)) {
+      return {
+        id: `mock_call_${request.messages.length}`,
+        name: trigger.tool,
+        arguments: trigger.args(match),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the canned reply. Depends only on the request so the same
+ * conversation always produces the same answer.
+ */
+function buildReply(request: AICompletionRequest): string {
+  const lastUserMessage = [...request.messages].reverse().find((m) => m.role === "user");
+
+  if (!lastUserMessage) {
+    return "Hi! I'm the mock assistant. Send me a message and I'll echo it back.";
+  }
+
+  const turn = request.messages.filter((m) => m.role === "user").length;
+  const toolResults = request.messages
+    .slice(request.messages.lastIndexOf(lastUserMessage) + 1)
+    .filter((m) => m.role === "tool");
+
+  if (toolResults.length > 0) {
+    return `[mock reply #${turn}] Here is what my tools found: ${toolResults.map((m) => m.content).join(" ")}`;
+  }
+
+  return `[mock reply #${turn}] You said: "${lastUserMessage.content.trim()}". This response comes from the offline mock provider, so no AI service was called.`;
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Aborted"));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * In-process provider for running the chat end to end without network
+ * access or an `AI_API_KEY`. Select it with `AI_PROVIDER=mock`.
+ */
+export function createMockProvider(): AIProvider {
+  return {
+    name: "mock",
+
+    async complete(request) {
+      const toolCall = pickToolCall(request);
+      if (toolCall) {
+        return { content: "", toolCalls: [toolCall] };
+      }
+
+      return { content: buildReply(request) };
+    },
+
+    async stream(request, { signal, onToken }): Promise<AIResponse> {
+      const toolCall = pickToolCall(request);
+      if (toolCall) {
+        return { content: "", toolCalls: [toolCall] };
+      }
+
+      const reply = buildReply(request);
+      let content = "";
+
+      try {
+        // Split after each space so the deltas concatenate back to the reply
+        for (const token of reply.match(/\S+\s*/g) ?? []) {
+          await wait(TOKEN_DELAY_MS, signal);
+          content += token;
+          onToken(token);
+        }
+      } catch {
+        return { content, aborted: true };
+      }
+
+      return { content };
+    },
+  };
+}
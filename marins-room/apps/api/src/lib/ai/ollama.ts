@@ -0,0 +1,177 @@
+import { logger } from "../logger.js";
+
+import { consumeStream } from "./stream.js";
+import type {
+  AICompletionRequest,
+  AIProvider,
+  AIProviderConfig,
+  AIToolCall,
+  AIUsage,
+} from "./types.js";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+
+interface OllamaToolCall {
+  function: { name: string; arguments?: Record<string, unknown> };
+}
+
+// Token counts Ollama reports on the final (or only) response object
+interface OllamaCounts {
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function toUsage(counts: OllamaCounts): AIUsage | undefined {
+  if (counts.prompt_eval_count === undefined && counts.eval_count === undefined) {
+    return undefined;
+  }
+  return {
+    promptTokens: counts.prompt_eval_count ?? 0,
+    completionTokens: counts.eval_count ?? 0,
+  };
+}
+
+function toOllamaMessages(request: AICompletionRequest) {
+  return [
+    { role: "system", content: request.system },
+    ...request.messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls?.map(
+        (call): OllamaToolCall => ({
+          function: { name: call.name, arguments: call.arguments },
+        })
+      ),
+    })),
+  ];
+}
+
+// Ollama does not assign ids to tool calls, so they are numbered per reply
+function toToolCalls(calls: OllamaToolCall[]): AIToolCall[] {
+  return calls.map((call, index) => ({
+    id: `call_${index}`,
+    name: call.function.name,
+    arguments: call.function.arguments ?? {},
+  }));
+}
+
+/**
+ * Ollama-style `/api/chat` adapter for models running locally. No API key is
+ * needed; streamed replies arrive as newline-delimited JSON objects.
+ */
+export function createOllamaProvider(config: AIProviderConfig): AIProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  const post = (request: AICompletionRequest, stream: boolean, signal?: AbortSignal) =>
+    fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toOllamaMessages(request),
+        tools: request.tools?.map((tool) => ({
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+        stream,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature,
+        },
+      }),
+      signal,
+    });
+
+  return {
+    name: "ollama",
+
+    async complete(request, { signal } = {}) {
+      try {
+        const response = await post(request, false, signal);
+
+        if (!response.ok) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        const data = (await response.json()) as OllamaCounts & {
+          message?: { content?: string; tool_calls?: OllamaToolCall[] };
+        };
+        const content = data.message?.content ?? "";
+        const toolCalls = toToolCalls(data.message?.tool_calls ?? []);
+        const usage = toUsage(data);
+
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        logger.error("AI request failed:", error);
+        return { content: "", error: "AI service unavailable" };
+      }
+    },
+
+    async stream(request, { signal, onToken }) {
+      let content = "";
+      const rawCalls: OllamaToolCall[] = [];
+      let usage: AIUsage | undefined;
+
+      try {
+        const response = await post(request, true, signal);
+
+        if (!response.ok || !response.body) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        await consumeStream(
+          response.body,
+          (line) => {
+            const chunk = JSON.parse(line) as OllamaCounts & {
+              message?: { content?: string; tool_calls?: OllamaToolCall[] };
+            };
+            usage = toUsage(chunk) ?? usage;
+            // Tool calls come complete in a single chunk rather than as deltas
+            rawCalls.push(...(chunk.message?.tool_calls ?? []));
+            return chunk.message?.content ?? null;
+          },
+          (delta) => {
+            content += delta;
+            onToken(delta);
+          }
+        );
+
+        const toolCalls = toToolCalls(rawCalls);
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        if (signal?.aborted) {
+          return { content, aborted: true };
+        }
+
+        logger.error("AI stream failed:", error);
+        return { content, error: "AI service unavailable" };
+      }
+    },
+  };
+}
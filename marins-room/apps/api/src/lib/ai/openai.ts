@@ -0,0 +1,222 @@
+import { logger } from "../logger.js";
+
+import { consumeStream, parseSseData, parseToolArguments } from "./stream.js";
+import type {
+  AICompletionRequest,
+  AIProvider,
+  AIProviderConfig,
+  AIToolCall,
+  AIUsage,
+} from "./types.js";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function toOpenAIMessages(request: AICompletionRequest) {
+  return [
+    { role: "system", content: request.system },
+    ...request.messages.map((message) => {
+      if (message.role === "tool") {
+        return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+      }
+      if (message.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(
+            (call): OpenAIToolCall => ({
+              id: call.id,
+              type: "function",
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })
+          ),
+        };
+      }
+      if (message.images?.length) {
+        return {
+          role: message.role,
+          content: [
+            ...(message.content ? [{ type: "text", text: message.content }] : []),
+            ...message.images.map((url) => ({ type: "image_url", image_url: { url } })),
+          ],
+        };
+      }
+      return { role: message.role, content: message.content };
+    }),
+  ];
+}
+
+function toUsage(usage: OpenAIUsage | null | undefined): AIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+function toToolCalls(calls: OpenAIToolCall[] | undefined): AIToolCall[] {
+  return (calls ?? []).map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments),
+  }));
+}
+
+/**
+ * OpenAI-compatible `/chat/completions` adapter. Also covers Azure OpenAI,
+ * OpenRouter, vLLM and other servers that speak the same protocol.
+ */
+export function createOpenAIProvider(config: AIProviderConfig): AIProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  const post = (request: AICompletionRequest, stream: boolean, signal?: AbortSignal) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toOpenAIMessages(request),
+        tools: request.tools?.map((tool) => ({
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+        // The last streamed chunk then carries the token counts
+        stream_options: stream ? { include_usage: true } : undefined,
+      }),
+      signal,
+    });
+
+  return {
+    name: "openai",
+
+    async complete(request, { signal } = {}) {
+      try {
+        const response = await post(request, false, signal);
+
+        if (!response.ok) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        const data = (await response.json()) as {
+          choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAIToolCall[] } }>;
+          usage?: OpenAIUsage;
+        };
+        const message = data.choices?.[0]?.message;
+        const content = message?.content ?? "";
+        const toolCalls = toToolCalls(message?.tool_calls);
+        const usage = toUsage(data.usage);
+
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        logger.error("AI request failed:", error);
+        return { content: "", error: "AI service unavailable" };
+      }
+    },
+
+    async stream(request, { signal, onToken }) {
+      let content = "";
+      let usage: AIUsage | undefined;
+      // Tool calls arrive in fragments keyed by their position in the list
+      const partialCalls: OpenAIToolCall[] = [];
+
+      try {
+        const response = await post(request, true, signal);
+
+        if (!response.ok || !response.body) {
+          const error = await response.text();
+          logger.error("AI API error:", error);
+          return { content: "", error: "Failed to get AI response" };
+        }
+
+        await consumeStream(
+          response.body,
+          (line) => {
+            const data = parseSseData(line);
+            if (!data || data === "[DONE]") return null;
+
+            const chunk = JSON.parse(data) as {
+              choices?: Array<{
+                delta?: {
+                  content?: string;
+                  tool_calls?: Array<{
+                    index: number;
+                    id?: string;
+                    function?: { name?: string; arguments?: string };
+                  }>;
+                };
+              }>;
+              usage?: OpenAIUsage | null;
+            };
+            usage = toUsage(chunk.usage) ?? usage;
+            const delta = chunk.choices?.[0]?.delta;
+
+            for (const fragment of delta?.tool_calls ?? []) {
+              const call = (partialCalls[fragment.index] ??= {
+                id: "",
+                type: "function",
+                function: { name: "", arguments: "" },
+              });
+              if (fragment.id) call.id = fragment.id;
+              call.function.name += fragment.function?.name ?? "";
+              call.function.arguments += fragment.function?.arguments ?? "";
+            }
+
+            return delta?.content ?? null;
+          },
+          (delta) => {
+            content += delta;
+            onToken(delta);
+          }
+        );
+
+        const toolCalls = toToolCalls(partialCalls.filter(Boolean));
+        if (toolCalls.length > 0) {
+          return { content, toolCalls, usage };
+        }
+
+        if (!content) {
+          return { content: "", error: "Empty AI response", empty: true };
+        }
+
+        return { content, usage };
+      } catch (error) {
+        if (signal?.aborted) {
+          return { content, aborted: true };
+        }
+
+        logger.error("AI stream failed:", error);
+        return { content, error: "AI service unavailable" };
+      }
+    },
+  };
+}
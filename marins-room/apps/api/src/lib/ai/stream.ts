@@ -0,0 +1,83 @@
+import { logger } from "../logger.js";
+
+/**
+ * Yields complete lines from a streamed HTTP body. Used by the adapters to
+ * read server-sent events and newline-delimited JSON.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      yield line.trim();
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
+
+/**
+ * Returns the payload of an SSE "data:" line, or null for any other line
+ * (comments, "event:" lines, blank separators).
+ */
+export function parseSseData(line: string): string | null {
+  if (!line.startsWith("data:")) return null;
+  return line.slice("data:".length).trim();
+}
+
+/**
+ * Reads a streamed completion body, passing each text delta to `onToken`.
+ * `extractDelta` maps one line of the body to its text (or null to skip it);
+ * lines it cannot parse are logged and skipped.
+ */
+export async function consumeStream(
+  body: ReadableStream<Uint8Array>,
+  extractDelta: (line: string) => string | null,
+  onToken: (delta: string) => void
+): Promise<void> {
+  for await (const line of readLines(body)) {
+    if (!line) continue;
+
+    let delta: string | null;
+    try {
+      delta = extractDelta(line);
+    } catch {
+      logger.warn(`Skipping malformed AI stream chunk: ${line}`);
+      continue;
+    }
+
+    if (delta) {
+      onToken(delta);
+    }
+  }
+}
+
+/**
+ * Parses the JSON-encoded arguments of a tool call. Models occasionally emit
+ * invalid JSON; the tool then runs with no arguments and reports what is
+ * missing instead of failing the whole reply.
+ */
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    logger.warn(`Ignoring malformed tool arguments: ${raw}`);
+    return {};
+  }
+}
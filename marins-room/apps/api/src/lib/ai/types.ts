@@ -0,0 +1,76 @@
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface AIChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  // User turns: public URLs of attached images (vision models only)
+  images?: string[];
+  // Assistant turns: tools the model asked to run
+  toolCalls?: AIToolCall[];
+  // Tool turns: the call this message is the result of
+  toolCallId?: string;
+}
+
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the tool's arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AIResponse {
+  content: string;
+  toolCalls?: AIToolCall[];
+  // Token counts as reported by the provider (missing if it reports none)
+  usage?: AIUsage;
+  error?: string;
+  // With `error`: the provider answered, but with no text or tool calls
+  empty?: boolean;
+  aborted?: boolean;
+}
+
+export interface AICompletionRequest {
+  system: string;
+  messages: AIChatMessage[];
+  tools?: AIToolDefinition[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface AICompleteOptions {
+  signal?: AbortSignal;
+}
+
+export interface AIStreamOptions extends AICompleteOptions {
+  onToken: (delta: string) => void;
+}
+
+export interface AIProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * A chat completion backend. Adapters translate the provider-neutral request
+ * into the provider's wire format and never throw: failures are reported
+ * through `error` on the returned response.
+ *
+ * When `tools` are offered the model may answer with `toolCalls` instead of
+ * (or as well as) text; the caller runs them and sends the results back as
+ * `tool` messages.
+ */
+export interface AIProvider {
+  name: string;
+  complete(request: AICompletionRequest, options?: AICompleteOptions): Promise<AIResponse>;
+  stream(request: AICompletionRequest, options: AIStreamOptions): Promise<AIResponse>;
+}
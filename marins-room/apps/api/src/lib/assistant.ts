@@ -0,0 +1,247 @@
+import type { ChatMessage, Prisma } from "@prisma/client";
+
+import { env } from "../config/env.js";
+
+import {
+  getAIResponse,
+  streamAIResponse,
+  type AIChatMessage,
+  type AIResponse,
+  type AIUsage,
+} from "./ai.js";
+import { buildChatContext } from "./chatContext.js";
+import { CHAT_TOOLS, runChatTool, type ToolOutcome } from "./chatTools.js";
+import { flagForFollowUp } from "./followUp.js";
+import { extractCitations, formatKnowledgeInstructions, searchKnowledge } from "./knowledge.js";
+import { replyLanguageInstructions } from "./language.js";
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+import {
+  GUARD_INSTRUCTIONS,
+  SAFE_FALLBACK,
+  checkReply,
+  recordIncident,
+  scoreInjection,
+} from "./promptGuard.js";
+import { getSessionPrompt } from "./prompts.js";
+import { addUsage, checkUsageCaps } from "./usage.js";
+
+// Rounds of tool calls allowed per reply; the round after that must answer
+const MAX_TOOL_ROUNDS = 3;
+
+export type AssistantMessage = Prisma.ChatMessageGetPayload<{ include: { toolCalls: true } }>;
+
+export interface AssistantReply {
+  message: AssistantMessage | null;
+  aborted?: boolean;
+  error?: string;
+  // The AI couldn't answer: `message` is the SYSTEM fallback notice and the
+  // session was flagged for Marin to follow up
+  fallback?: boolean;
+}
+
+interface AssistantReplyOptions {
+  // Pass onToken to stream the reply; otherwise it is generated in one call
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+interface ToolRun {
+  name: string;
+  arguments: Prisma.InputJsonValue;
+  outcome: ToolOutcome;
+}
+
+/**
+ * Generates and saves the assistant's reply to the latest visitor message.
+ * Shared by the REST and WebSocket chat paths.
+ *
+ * The prompt is the session's system prompt version (see prompts.ts) and
+ * conversation context plus any blog/video passages relevant to the
+ * question; passages the reply cites are stored as structured citations on
+ * the saved message. The AI is told to reply in the language the visitor
+ * writes in (see language.ts).
+ *
+ * The model may call server-side tools (see chatTools.ts) before answering.
+ * Each call and its result is saved with the reply so admins can see what
+ * the assistant did.
+ *
+ * The prompt guard (promptGuard.ts) runs on both ends: a message that is
+ * clearly an injection attempt gets the safe fallback without calling the
+ * model, and a reply that leaks the system prompt or speaks for Marin is
+ * replaced by it before saving (streamed clients swap in the saved text).
+ * Both are logged as incidents.
+ *
+ * If the AI service fails (after the retries in ai/breaker.ts, or at once
+ * while the breaker is open) and nothing was generated, the visitor gets
+ * AI_FALLBACK_MESSAGE as a SYSTEM message and the session is flagged for
+ * follow-up instead of the reply silently never arriving. The same happens
+ * without calling the AI once the session or today's token cap (see
+ * usage.ts) is used up.
+ *
+ * The reply records the tokens it used across all its AI calls and how
+ * long it took to generate.
+ */
+export async function generateAssistantReply(
+  sessionId: string,
+  question: Pick<ChatMessage, "id" | "content" | "aiContent">,
+  { onToken, signal }: AssistantReplyOptions = {}
+): Promise<AssistantReply> {
+  const text = question.aiContent ?? question.content;
+
+  const injection = scoreInjection(text);
+  if (injection.block) {
+    await recordIncident(sessionId, question.id, {
+      kind: "PROMPT_INJECTION",
+      score: injection.score,
+      details: { matched: injection.matched },
+      content: text,
+    });
+
+    const message = await prisma.chatMessage.create({
+      data: { sessionId, role: "ASSISTANT", content: SAFE_FALLBACK },
+      include: { toolCalls: true },
+    });
+    return { message };
+  }
+
+  const capReached = await checkUsageCaps(sessionId);
+  if (capReached) {
+    return saveFallback(sessionId, capReached);
+  }
+
+  const startedAt = Date.now();
+  const [prompt, history, sources, session] = await Promise.all([
+    getSessionPrompt(sessionId),
+    buildChatContext(sessionId),
+    searchKnowledge(text),
+    prisma.chatSession.findUnique({ where: { id: sessionId }, select: { language: true } }),
+  ]);
+  const systemPrompt = prompt.content;
+  const instructions = [
+    formatKnowledgeInstructions(sources),
+    replyLanguageInstructions(session?.language ?? null),
+    injection.warn && GUARD_INSTRUCTIONS,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const messages: AIChatMessage[] = [...history];
+  const toolRuns: ToolRun[] = [];
+  let content = "";
+  let aiResult: AIResponse;
+  const usage: AIUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for (let round = 0; ; round++) {
+    const tools = round < MAX_TOOL_ROUNDS ? CHAT_TOOLS : undefined;
+
+    // Text from earlier rounds ("Let me check...") was already streamed, so
+    // separate the next round's text the same way it is saved
+    let started = false;
+    const roundOnToken =
+      onToken &&
+      ((delta: string) => {
+        if (!started && content) onToken("\n\n");
+        started = true;
+        onToken(delta);
+      });
+
+    aiResult = roundOnToken
+      ? await streamAIResponse(messages, {
+          onToken: roundOnToken,
+          signal,
+          instructions,
+          tools,
+          systemPrompt,
+        })
+      : await getAIResponse(messages, { instructions, tools, systemPrompt });
+    addUsage(usage, [systemPrompt, instructions, ...messages.map((m) => m.content)], aiResult);
+
+    if (aiResult.content) {
+      content = content ? `${content}\n\n${aiResult.content}` : aiResult.content;
+    }
+
+    if (!tools || !aiResult.toolCalls?.length || aiResult.aborted) break;
+
+    messages.push({ role: "assistant", content: aiResult.content, toolCalls: aiResult.toolCalls });
+
+    for (const call of aiResult.toolCalls) {
+      const outcome = await runChatTool(call, { sessionId });
+      toolRuns.push({
+        name: call.name,
+        arguments: call.arguments as Prisma.InputJsonValue,
+        outcome,
+      });
+      messages.push({
+        role: "tool",
+        toolCallId: call.id,
+        content: JSON.stringify(outcome.error ? { error: outcome.error } : outcome.result),
+      });
+    }
+
+    if (round + 1 === MAX_TOOL_ROUNDS) {
+      logger.warn(`Tool round limit reached for session ${sessionId}; forcing a final answer`);
+    }
+  }
+
+  const toolCallData = toolRuns.map((run) => ({
+    sessionId,
+    name: run.name,
+    arguments: run.arguments,
+    result: run.outcome.result,
+    error: run.outcome.error,
+  }));
+
+  // Save whatever was generated, including a partial reply from an aborted
+  // stream, so the transcript matches what visitors saw
+  if (!content) {
+    if (toolCallData.length > 0) {
+      await prisma.chatToolCall.createMany({ data: toolCallData });
+    }
+    if (aiResult.error && !aiResult.aborted) {
+      return saveFallback(sessionId, aiResult.error);
+    }
+    return { message: null, aborted: aiResult.aborted, error: aiResult.error };
+  }
+
+  const violation = checkReply(content, systemPrompt);
+  const citations = violation ? [] : extractCitations(content, sources);
+  const message = await prisma.chatMessage.create({
+    data: {
+      sessionId,
+      role: "ASSISTANT",
+      content: violation ? SAFE_FALLBACK : content,
+      citations: citations.length > 0 ? citations : undefined,
+      model: env.AI_MODEL,
+      promptVersionId: prompt.promptVersionId,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      toolCalls: { create: toolCallData },
+    },
+    include: { toolCalls: true },
+  });
+
+  if (violation) {
+    await recordIncident(sessionId, message.id, violation);
+  }
+
+  return { message, aborted: aiResult.aborted, error: aiResult.error };
+}
+
+async function saveFallback(sessionId: string, error: string): Promise<AssistantReply> {
+  logger.warn(`AI reply failed for session ${sessionId} (${error}); sending the fallback`);
+
+  const message = await prisma.chatMessage.create({
+    data: { sessionId, role: "SYSTEM", content: env.AI_FALLBACK_MESSAGE },
+    include: { toolCalls: true },
+  });
+
+  try {
+    await flagForFollowUp(sessionId);
+  } catch (flagError) {
+    logger.error(`Failed to flag session ${sessionId} for follow-up:`, flagError);
+  }
+
+  return { message, error, fallback: true };
+}
@@ -0,0 +1,68 @@
+import type { CreateAttachmentInput } from "@marins-room/shared";
+import { v4 as uuidv4 } from "uuid";
+
+import { prisma } from "./prisma.js";
+import { generateSignedUploadUrl, getPublicUrl } from "./s3.js";
+
+// File extension by type; the visitor's file name is only kept for display
+const EXTENSIONS: Record<CreateAttachmentInput["mimeType"], string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+};
+
+export function isImageAttachment(attachment: { mimeType: string }) {
+  return attachment.mimeType.startsWith("image/");
+}
+
+/**
+ * Records an attachment for a session and returns a presigned URL to upload
+ * it to. It stays unlinked until a message is sent with its id.
+ */
+export async function createAttachmentUpload(
+  sessionId: string,
+  { fileName, mimeType, fileSizeBytes }: CreateAttachmentInput
+) {
+  const id = uuidv4();
+  const storageKey = `chat-attachments/${sessionId}/${id}.${EXTENSIONS[mimeType]}`;
+
+  const attachment = await prisma.chatAttachment.create({
+    data: {
+      id,
+      sessionId,
+      fileName,
+      mimeType,
+      fileSizeBytes,
+      storageKey,
+      url: getPublicUrl(storageKey),
+    },
+  });
+
+  const uploadUrl = await generateSignedUploadUrl(storageKey, mimeType, fileSizeBytes);
+
+  return { attachment, uploadUrl };
+}
+
+/**
+ * Whether the attachments were uploaded to this session and not sent yet.
+ * Ones already sent with the same clientMessageId count too, so a retried
+ * send isn't rejected.
+ */
+export async function canAttach(
+  sessionId: string,
+  attachmentIds: string[],
+  clientMessageId?: string
+): Promise<boolean> {
+  const ids = [...new Set(attachmentIds)];
+  const count = await prisma.chatAttachment.count({
+    where: {
+      id: { in: ids },
+      sessionId,
+      OR: [{ messageId: null }, ...(clientMessageId ? [{ message: { clientMessageId } }] : [])],
+    },
+  });
+  return count === ids.length;
+}
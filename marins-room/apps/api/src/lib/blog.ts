@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+
+import type { BlogPost } from "@marins-room/shared";
+import matter from "gray-matter";
+
+import { env } from "../config/env.js";
+
+import { logger } from "./logger.js";
+
+/**
+ * Reads the published MDX posts from the web app's content directory,
+ * newest first. Mirrors `getBlogPosts()` in apps/web/src/lib/blog.ts.
+ */
+export function readBlogPosts(dir = path.resolve(env.BLOG_CONTENT_DIR)): BlogPost[] {
+  if (!fs.existsSync(dir)) {
+    logger.warn(`Blog content directory not found: ${dir}`);
+    return [];
+  }
+
+  const posts = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".mdx"))
+    .map((filename) => {
+      const slug = filename.replace(/\.mdx$/, "");
+      const { data, content } = matter(fs.readFileSync(path.join(dir, filename), "utf-8"));
+
+      return {
+        slug,
+        title: data.title || slug,
+        description: data.description || "",
+        date: data.date || new Date().toISOString(),
+        author: data.author || "Marin",
+        tags: data.tags || [],
+        published: data.published !== false,
+        content,
+      } as BlogPost;
+    });
+
+  return posts
+    .filter((p) => p.published)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -0,0 +1,230 @@
+import type { ChatAttachment, ChatMessage, Prisma } from "@prisma/client";
+
+import { env } from "../config/env.js";
+
+import { summarizeConversation, supportsImages, type AIChatMessage } from "./ai.js";
+import { isImageAttachment } from "./attachments.js";
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+import { estimateTokens, recordUsage } from "./usage.js";
+
+/**
+ * Rolling summary of the turns that no longer fit in the prompt, stored
+ * under `contextSummary` in `ChatSession.metadata`.
+ */
+interface ContextSummary {
+  content: string;
+  // createdAt and id of the newest message folded into the summary;
+  // messages can share a createdAt, so the id breaks ties (summaries
+  // saved before it was recorded have no id)
+  coveredUntil: string;
+  coveredUntilId?: string;
+  messageCount: number;
+}
+
+// History budgets by model family, matched by prefix (first match wins).
+// These are deliberately far below the models' context windows: the budget
+// only covers history, and short prompts keep replies fast and cheap.
+const MODEL_BUDGETS: Array<[prefix: string, tokens: number]> = [
+  ["gpt-3.5", 2500],
+  ["gpt-4o", 6000],
+  ["gpt-4", 6000],
+  ["claude", 6000],
+  ["llama", 3000],
+  ["mistral", 3000],
+];
+const DEFAULT_BUDGET = 4000;
+
+// Upper bound on rows loaded per prompt, whatever the budget
+const MAX_HISTORY_MESSAGES = 200;
+
+// Stands in for a visitor message that is only attachments the AI can't see
+const ATTACHMENT_ONLY_NOTE = "[The visitor sent an attachment]";
+
+export function getContextBudget(model = env.AI_MODEL): number {
+  if (env.AI_CONTEXT_TOKENS) {
+    return env.AI_CONTEXT_TOKENS;
+  }
+
+  const match = MODEL_BUDGETS.find(([prefix]) => model.toLowerCase().startsWith(prefix));
+  return match ? match[1] : DEFAULT_BUDGET;
+}
+
+/**
+ * Maps a stored message to a prompt turn. Marin's own replies are not the
+ * assistant's words, so they are passed as attributed context rather than
+ * as assistant turns the model would take credit for. Visitor messages use
+ * their moderated copy (PII redacted) when there is one.
+ *
+ * Attachments are left out, except images when the model can see them
+ * (see supportsImages).
+ */
+export function toAIMessage(
+  message: Pick<ChatMessage, "role" | "content" | "aiContent"> & {
+    attachments?: ChatAttachment[];
+  }
+): AIChatMessage {
+  switch (message.role) {
+    case "USER": {
+      const images = supportsImages()
+        ? (message.attachments ?? []).filter(isImageAttachment).map((file) => file.url)
+        : [];
+      const content = message.aiContent ?? message.content;
+      return {
+        role: "user",
+        content: content || (images.length > 0 ? "" : ATTACHMENT_ONLY_NOTE),
+        ...(images.length > 0 && { images }),
+      };
+    }
+    case "ASSISTANT":
+      return { role: "assistant", content: message.content };
+    case "ADMIN":
+      return {
+        role: "system",
+        content: `Marin (the site owner) replied to the visitor in person: ${message.content}`,
+      };
+    case "SYSTEM":
+      return { role: "system", content: message.content };
+  }
+}
+
+// Messages in the order the summary covers them: by createdAt, then id
+const HISTORY_ORDER: Prisma.ChatMessageOrderByWithRelationInput[] = [
+  { createdAt: "desc" },
+  { id: "desc" },
+];
+
+/** Where a session's messages not yet folded into `summary` start. */
+function afterSummary(summary: ContextSummary): Prisma.ChatMessageWhereInput {
+  const coveredUntil = new Date(summary.coveredUntil);
+  if (!summary.coveredUntilId) {
+    return { createdAt: { gt: coveredUntil } };
+  }
+
+  return {
+    OR: [
+      { createdAt: { gt: coveredUntil } },
+      { createdAt: coveredUntil, id: { gt: summary.coveredUntilId } },
+    ],
+  };
+}
+
+function readSummary(metadata: Prisma.JsonValue | null): ContextSummary | null {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return null;
+  }
+
+  const summary = (metadata as Record<string, unknown>).contextSummary as
+    | ContextSummary
+    | undefined;
+  return summary?.content ? summary : null;
+}
+
+/**
+ * Splits messages (oldest first) into the older ones that must be dropped
+ * and the most recent ones that fit in `budget` tokens. The newest message
+ * is always kept, even if it alone exceeds the budget.
+ */
+function splitByBudget<T extends ChatMessage>(messages: T[], budget: number) {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1]!.content);
+    if (used + cost > budget && start < messages.length) break;
+    used += cost;
+    start--;
+  }
+
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+/**
+ * Builds the conversation history sent to the AI for a session.
+ *
+ * The most recent turns are included newest-first until the model's budget
+ * is spent. When history outgrows the budget, the older turns are folded
+ * into the session's rolling summary (down to half the budget, so this only
+ * happens every few turns) and the summary is prepended as a system message.
+ * The summary's tokens count towards the usage caps (see usage.ts).
+ */
+export async function buildChatContext(sessionId: string): Promise<AIChatMessage[]> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { metadata: true },
+  });
+
+  let summary = readSummary(session?.metadata ?? null);
+
+  const latest = await prisma.chatMessage.findMany({
+    where: {
+      sessionId,
+      ...(summary ? afterSummary(summary) : {}),
+    },
+    orderBy: HISTORY_ORDER,
+    take: MAX_HISTORY_MESSAGES,
+    include: { attachments: true },
+  });
+  const history = latest.reverse();
+
+  const budget = getContextBudget();
+  const available = budget - (summary ? estimateTokens(summary.content) : 0);
+  let { recent } = splitByBudget(history, available);
+
+  const compacted = splitByBudget(history, Math.floor(budget / 2));
+  if (recent.length < history.length && compacted.older.length > 0) {
+    const startedAt = Date.now();
+    const older = compacted.older.map(toAIMessage);
+    const result = await summarizeConversation(summary?.content ?? null, older);
+
+    if (result.content) {
+      await recordUsage(
+        sessionId,
+        "SUMMARY",
+        [summary?.content ?? "", ...older.map((m) => m.content)],
+        result,
+        startedAt
+      );
+
+      const newest = compacted.older[compacted.older.length - 1]!;
+      summary = {
+        content: result.content,
+        coveredUntil: newest.createdAt.toISOString(),
+        coveredUntilId: newest.id,
+        messageCount: (summary?.messageCount ?? 0) + compacted.older.length,
+      };
+      recent = compacted.recent;
+
+      await saveSummary(sessionId, session?.metadata ?? null, summary);
+    } else {
+      // Keep going without a fresh summary; the oldest turns are dropped
+      logger.warn(`Failed to summarize session ${sessionId}: ${result.error}`);
+    }
+  }
+
+  const messages = recent.map(toAIMessage);
+  if (summary) {
+    messages.unshift({
+      role: "system",
+      content: `Summary of the earlier conversation:\n${summary.content}`,
+    });
+  }
+
+  return messages;
+}
+
+async function saveSummary(
+  sessionId: string,
+  metadata: Prisma.JsonValue | null,
+  summary: ContextSummary
+) {
+  const current =
+    metadata && typeof metadata === "object" && !Array.isArray(metadata) ? metadata : {};
+
+  await prisma.chatSession.update({
+    where: { id: sessionId },
+    data: {
+      metadata: { ...current, contextSummary: { ...summary } } as Prisma.InputJsonObject,
+    },
+  });
+}
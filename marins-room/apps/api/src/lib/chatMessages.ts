@@ -0,0 +1,80 @@
+import { Prisma, type ChatAttachment, type ChatMessage, type ModerationFlag } from "@prisma/client";
+
+import { detectLanguage } from "./language.js";
+import { prisma } from "./prisma.js";
+
+export interface SavedMessage {
+  message: ChatMessage & { attachments: ChatAttachment[] };
+  // True when this clientMessageId was already saved (a retried send)
+  duplicate: boolean;
+}
+
+/**
+ * Saves a message sent by the visitor or Marin. Sends carrying a
+ * `clientMessageId` are idempotent: retrying returns the stored message
+ * instead of creating a second one.
+ *
+ * Attachments are linked to the new message; check them with canAttach
+ * (attachments.ts) first. The message is returned with its attachments.
+ *
+ * A visitor message's language is detected and, when recognised, becomes
+ * the session's language (which the AI replies in).
+ */
+export async function saveSentMessage(data: {
+  sessionId: string;
+  role: "USER" | "ADMIN";
+  content: string;
+  clientMessageId?: string;
+  // From moderateMessage, for visitor messages
+  aiContent?: string | null;
+  flags?: ModerationFlag[];
+  attachmentIds?: string[];
+  // For admin replies translated before sending (see translation.ts)
+  language?: string | null;
+  originalContent?: string | null;
+}): Promise<SavedMessage> {
+  const { attachmentIds, ...fields } = data;
+  const { sessionId, clientMessageId } = fields;
+  if (fields.role === "USER") {
+    fields.language = detectLanguage(fields.content);
+  }
+
+  const findExisting = () =>
+    clientMessageId
+      ? prisma.chatMessage.findUnique({
+          where: { sessionId_clientMessageId: { sessionId, clientMessageId } },
+          include: { attachments: true },
+        })
+      : null;
+
+  const existing = await findExisting();
+  if (existing) {
+    return { message: existing, duplicate: true };
+  }
+
+  try {
+    const message = await prisma.chatMessage.create({
+      data: {
+        ...fields,
+        ...(attachmentIds?.length && {
+          attachments: { connect: attachmentIds.map((id) => ({ id })) },
+        }),
+      },
+      include: { attachments: true },
+    });
+    if (message.role === "USER" && message.language) {
+      await prisma.chatSession.update({
+        where: { id: sessionId },
+        data: { language: message.language },
+      });
+    }
+    return { message, duplicate: false };
+  } catch (error) {
+    // A concurrent retry saved it first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const raced = await findExisting();
+      if (raced) return { message: raced, duplicate: true };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,172 @@
+import { CreateCheckoutSessionSchema } from "@marins-room/shared";
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { env } from "../config/env.js";
+
+import type { AIToolCall, AIToolDefinition } from "./ai.js";
+import { readBlogPosts } from "./blog.js";
+import { createDonationCheckout, findChatCheckout } from "./donations.js";
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+
+const MAX_TOOL_RESULTS = 5;
+
+export interface ToolOutcome {
+  result?: Prisma.InputJsonValue;
+  error?: string;
+}
+
+// The conversation a tool runs in
+export interface ToolContext {
+  sessionId: string;
+}
+
+interface ChatTool {
+  definition: AIToolDefinition;
+  schema: z.ZodTypeAny;
+  run: (args: never, context: ToolContext) => Promise<Prisma.InputJsonValue>;
+}
+
+const SearchVideosArgs = z.object({
+  query: z.string().max(100).optional(),
+  limit: z.number().int().min(1).max(MAX_TOOL_RESULTS).optional(),
+});
+
+const FindPostsArgs = z.object({
+  tag: z.string().min(1).max(50),
+});
+
+async function searchVideos({ query, limit }: z.infer<typeof SearchVideosArgs>) {
+  const term = query?.trim();
+  const videos = await prisma.video.findMany({
+    where: {
+      status: "READY",
+      ...(term && {
+        OR: [
+          { title: { contains: term, mode: "insensitive" } },
+          { description: { contains: term, mode: "insensitive" } },
+        ],
+      }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit ?? MAX_TOOL_RESULTS,
+    select: { id: true, title: true, description: true },
+  });
+
+  return videos.map((video) => ({
+    id: video.id,
+    title: video.title,
+    description: video.description,
+    url: `${env.WEB_ORIGIN}/videos/${video.id}`,
+  }));
+}
+
+async function findPostsByTag({ tag }: z.infer<typeof FindPostsArgs>) {
+  const wanted = tag.toLowerCase();
+
+  return readBlogPosts()
+    .filter((post) => post.tags.some((t) => t.toLowerCase() === wanted))
+    .slice(0, MAX_TOOL_RESULTS)
+    .map((post) => ({
+      slug: post.slug,
+      title: post.title,
+      description: post.description,
+      date: post.date,
+      url: `${env.WEB_ORIGIN}/blog/${post.slug}`,
+    }));
+}
+
+// Visitors often ask for the link again; they get the same checkout
+async function startDonation(
+  input: z.infer<typeof CreateCheckoutSessionSchema>,
+  { sessionId }: ToolContext
+) {
+  const checkout =
+    (await findChatCheckout(sessionId, input)) ?? (await createDonationCheckout(input, sessionId));
+  return { url: checkout.url, amount: input.amount, currency: input.currency };
+}
+
+const TOOLS: ChatTool[] = [
+  {
+    definition: {
+      name: "search_videos",
+      description:
+        "Search Marin's published videos by title or description. Omit the query to list the latest videos.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Words to look for" },
+          limit: { type: "integer", minimum: 1, maximum: MAX_TOOL_RESULTS },
+        },
+      },
+    },
+    schema: SearchVideosArgs,
+    run: searchVideos,
+  },
+  {
+    definition: {
+      name: "find_posts_by_tag",
+      description: "List Marin's blog posts with the given tag, newest first.",
+      parameters: {
+        type: "object",
+        properties: {
+          tag: { type: "string", description: 'A tag such as "tech" or "tutorial"' },
+        },
+        required: ["tag"],
+      },
+    },
+    schema: FindPostsArgs,
+    run: findPostsByTag,
+  },
+  {
+    definition: {
+      name: "start_donation",
+      description:
+        "Create a Stripe checkout link for a donation to Marin. Only call this when the visitor asks to donate, and share the returned url with them.",
+      parameters: {
+        type: "object",
+        properties: {
+          amount: {
+            type: "integer",
+            description: "Amount in cents, at least 100 ($1)",
+            minimum: 100,
+          },
+          currency: { type: "string", description: 'ISO currency code, default "usd"' },
+          name: { type: "string", description: "Donor name, if the visitor gave one" },
+          email: { type: "string", description: "Donor email, if the visitor gave one" },
+          message: { type: "string", description: "Optional message for Marin" },
+        },
+        required: ["amount"],
+      },
+    },
+    schema: CreateCheckoutSessionSchema,
+    run: startDonation,
+  },
+];
+
+export const CHAT_TOOLS: AIToolDefinition[] = TOOLS.map((tool) => tool.definition);
+
+/**
+ * Validates the model's arguments and runs the tool. Never throws: unknown
+ * tools, invalid arguments and failures come back as `error` so the model
+ * can explain the problem instead of the reply failing.
+ */
+export async function runChatTool(call: AIToolCall, context: ToolContext): Promise<ToolOutcome> {
+  const tool = TOOLS.find((t) => t.definition.name === call.name);
+  if (!tool) {
+    return { error: `Unknown tool: ${call.name}` };
+  }
+
+  const parsed = tool.schema.safeParse(call.arguments);
+  if (!parsed.success) {
+    return { error: `Invalid arguments: ${parsed.error.issues.map((i) => i.message).join(", ")}` };
+  }
+
+  try {
+    return { result: await tool.run(parsed.data as never, context) };
+  } catch (error) {
+    logger.error(`Chat tool ${call.name} failed:`, error);
+    return { error: "Tool failed" };
+  }
+}
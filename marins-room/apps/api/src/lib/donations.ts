@@ -0,0 +1,111 @@
+import type { CreateCheckoutSessionInput } from "@marins-room/shared";
+
+import { env } from "../config/env.js";
+
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+import { stripe } from "./stripe.js";
+
+export interface DonationCheckout {
+  donationId: string;
+  sessionId: string;
+  url: string | null;
+}
+
+// How long the chat assistant shares the same checkout again instead of
+// starting another donation
+const CHAT_CHECKOUT_REUSE_MS = 60 * 60 * 1000;
+
+/**
+ * Records a pending donation and creates the Stripe Checkout session for it.
+ * Used by `POST /payments/checkout-session` and the chat assistant's
+ * donation tool (which passes its chat session) so both produce identical
+ * checkouts.
+ */
+export async function createDonationCheckout(
+  { amount, currency, name, email, message }: CreateCheckoutSessionInput,
+  chatSessionId?: string
+): Promise<DonationCheckout> {
+  // Create donation record in pending state
+  const donation = await prisma.donation.create({
+    data: {
+      amount,
+      currency,
+      name,
+      email,
+      message,
+      chatSessionId,
+      status: "PENDING",
+    },
+  });
+
+  // Create Stripe Checkout session
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    line_items: [
+      {
+        price_data: {
+          currency,
+          product_data: {
+            name: "Donation to Marin's Room",
+            description: message || "Thank you for your support!",
+          },
+          unit_amount: amount,
+        },
+        quantity: 1,
+      },
+    ],
+    customer_email: email,
+    metadata: {
+      donationId: donation.id,
+      donorName: name || "",
+      message: message || "",
+    },
+    success_url: `${env.WEB_ORIGIN}/donate/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${env.WEB_ORIGIN}/donate?canceled=true`,
+  });
+
+  // Update donation with Stripe session ID
+  await prisma.donation.update({
+    where: { id: donation.id },
+    data: { stripeSessionId: session.id },
+  });
+
+  logger.info(`Checkout session created: ${session.id} for donation ${donation.id}`);
+
+  return { donationId: donation.id, sessionId: session.id, url: session.url };
+}
+
+/**
+ * A checkout the chat assistant started in this chat session within the
+ * last hour for the same donation (amount, name, email and message), if it
+ * is still pending and open. Lets the assistant share that link again
+ * rather than creating a donation every time it is asked.
+ */
+export async function findChatCheckout(
+  chatSessionId: string,
+  { amount, currency, name, email, message }: CreateCheckoutSessionInput
+): Promise<DonationCheckout | null> {
+  const donation = await prisma.donation.findFirst({
+    where: {
+      chatSessionId,
+      amount,
+      currency,
+      // Left out means not given, not "any"
+      name: name ?? null,
+      email: email ?? null,
+      message: message ?? null,
+      status: "PENDING",
+      stripeSessionId: { not: null },
+      createdAt: { gte: new Date(Date.now() - CHAT_CHECKOUT_REUSE_MS) },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!donation?.stripeSessionId) return null;
+
+  const session = await stripe.checkout.sessions.retrieve(donation.stripeSessionId);
+  if (session.status !== "open") return null;
+
+  return { donationId: donation.id, sessionId: session.id, url: session.url };
+}
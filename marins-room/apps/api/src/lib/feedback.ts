@@ -0,0 +1,120 @@
+import type { FeedbackReportQueryInput } from "@marins-room/shared";
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "./prisma.js";
+
+// Conversations listed under "worst rated"
+const WORST_SESSIONS_LIMIT = 10;
+
+interface CountRow {
+  up: bigint;
+  down: bigint;
+}
+
+// Counted the same way in every part of the report
+const COUNTS = Prisma.sql`
+  count(*) FILTER (WHERE f.rating::text = 'UP') AS up,
+  count(*) FILTER (WHERE f.rating::text = 'DOWN') AS down
+`;
+
+function toCounts({ up, down }: CountRow) {
+  const total = Number(up) + Number(down);
+  return {
+    up: Number(up),
+    down: Number(down),
+    satisfaction: total > 0 ? Number(up) / total : null,
+  };
+}
+
+function toSqlConditions({ from, to }: FeedbackReportQueryInput): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (from) {
+    conditions.push(Prisma.sql`f.created_at >= ${from}`);
+  }
+  if (to) {
+    conditions.push(Prisma.sql`f.created_at < ${to}`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Satisfaction with the AI's replies: overall, over time, per model, per
+ * system prompt version (to compare A/B variants), and the conversations
+ * rated worst.
+ */
+export async function getFeedbackReport(filters: FeedbackReportQueryInput) {
+  const where = toSqlConditions(filters);
+
+  const [totals, timeline, byModel, byPromptVersion, worstSessions] = await Promise.all([
+    prisma.$queryRaw<CountRow[]>`
+      SELECT ${COUNTS} FROM chat_feedback f WHERE ${where}
+    `,
+    prisma.$queryRaw<Array<CountRow & { period: Date }>>`
+      SELECT date_trunc(${filters.interval}, f.created_at) AS period, ${COUNTS}
+      FROM chat_feedback f
+      WHERE ${where}
+      GROUP BY period
+      ORDER BY period
+    `,
+    prisma.$queryRaw<Array<CountRow & { model: string | null }>>`
+      SELECT m.model, ${COUNTS}
+      FROM chat_feedback f
+      JOIN chat_messages m ON m.id = f.message_id
+      WHERE ${where}
+      GROUP BY m.model
+      ORDER BY count(*) DESC
+    `,
+    prisma.$queryRaw<Array<CountRow & { promptVersionId: string | null; name: string | null }>>`
+      SELECT m.prompt_version_id AS "promptVersionId", p.name, ${COUNTS}
+      FROM chat_feedback f
+      JOIN chat_messages m ON m.id = f.message_id
+      LEFT JOIN prompt_versions p ON p.id = m.prompt_version_id
+      -- Generated replies only; canned ones (e.g. the welcome) had no prompt
+      WHERE ${where} AND m.model IS NOT NULL
+      GROUP BY m.prompt_version_id, p.name
+      ORDER BY count(*) DESC
+    `,
+    prisma.$queryRaw<
+      Array<
+        CountRow & {
+          sessionId: string;
+          visitorName: string | null;
+          createdAt: Date;
+          lastComment: string | null;
+        }
+      >
+    >`
+      SELECT
+        s.id AS "sessionId",
+        s.visitor_name AS "visitorName",
+        s.created_at AS "createdAt",
+        (array_agg(f.comment ORDER BY f.updated_at DESC)
+          FILTER (WHERE f.comment IS NOT NULL))[1] AS "lastComment",
+        ${COUNTS}
+      FROM chat_feedback f
+      JOIN chat_sessions s ON s.id = f.session_id
+      WHERE ${where}
+      GROUP BY s.id
+      HAVING count(*) FILTER (WHERE f.rating::text = 'DOWN') > 0
+      ORDER BY down DESC, up ASC, s.created_at DESC
+      LIMIT ${WORST_SESSIONS_LIMIT}
+    `,
+  ]);
+
+  return {
+    totals: toCounts(totals[0] ?? { up: 0n, down: 0n }),
+    timeline: timeline.map((row) => ({ period: row.period, ...toCounts(row) })),
+    byModel: byModel.map((row) => ({ model: row.model, ...toCounts(row) })),
+    byPromptVersion: byPromptVersion.map((row) => ({
+      promptVersionId: row.promptVersionId,
+      name: row.name,
+      ...toCounts(row),
+    })),
+    worstSessions: worstSessions.map(({ up, down, ...session }) => ({
+      ...session,
+      ...toCounts({ up, down }),
+    })),
+  };
+}
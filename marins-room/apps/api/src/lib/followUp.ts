@@ -0,0 +1,34 @@
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+
+// Tag on sessions the AI couldn't answer (see lib/triage.ts for tags)
+export const FOLLOW_UP_TAG = "follow-up";
+
+/**
+ * Flags the session for Marin after the AI failed to answer: tags it
+ * "follow-up" and raises it to HIGH priority (URGENT stays URGENT).
+ *
+ * Returns false if the session was already flagged.
+ */
+export async function flagForFollowUp(sessionId: string): Promise<boolean> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { priority: true, updatedAt: true },
+  });
+  if (!session) return false;
+
+  // Conditional, so concurrent failures flag only once
+  const { count } = await prisma.chatSession.updateMany({
+    where: { id: sessionId, NOT: { tags: { has: FOLLOW_UP_TAG } } },
+    data: {
+      tags: { push: FOLLOW_UP_TAG },
+      priority: session.priority === "URGENT" ? "URGENT" : "HIGH",
+      // Flagging alone shouldn't move the session up the inbox order
+      updatedAt: session.updatedAt,
+    },
+  });
+  if (count === 0) return false;
+
+  logger.info(`Chat session ${sessionId} flagged for follow-up`);
+  return true;
+}
@@ -0,0 +1,81 @@
+import type { ChatMessage, ChatSession, ChatSessionMode } from "@prisma/client";
+
+import { prisma } from "./prisma.js";
+
+// In HYBRID mode the AI stays quiet for this long after Marin's last reply
+const ADMIN_ACTIVE_WINDOW_MS = 2 * 60 * 1000;
+
+const MODE_NOTICES: Record<ChatSessionMode, string> = {
+  AI: "The AI assistant is answering again.",
+  HUMAN: "Marin has joined the chat. The AI assistant is paused.",
+  HYBRID: "Marin has joined the chat alongside the AI assistant.",
+};
+
+const HUMAN_REQUESTED_NOTICE = "You asked to talk to Marin. They'll join as soon as they can.";
+
+export interface HandoffChange {
+  session: ChatSession;
+  // SYSTEM message recording the change in the transcript
+  message: ChatMessage;
+}
+
+/**
+ * Whether the assistant should answer the visitor's latest message.
+ */
+export async function shouldAIReply(session: Pick<ChatSession, "id" | "mode">) {
+  if (session.mode === "AI") return true;
+  if (session.mode === "HUMAN") return false;
+
+  const lastAdminMessage = await prisma.chatMessage.findFirst({
+    where: { sessionId: session.id, role: "ADMIN" },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+
+  return (
+    !lastAdminMessage || Date.now() - lastAdminMessage.createdAt.getTime() > ADMIN_ACTIVE_WINDOW_MS
+  );
+}
+
+/**
+ * Switches who answers the visitor. Any mode change answers an open
+ * "talk to Marin" request, so the flag is cleared.
+ */
+export async function setSessionMode(
+  sessionId: string,
+  mode: ChatSessionMode
+): Promise<HandoffChange> {
+  const [session, message] = await prisma.$transaction([
+    prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { mode, humanRequestedAt: null },
+    }),
+    prisma.chatMessage.create({
+      data: { sessionId, role: "SYSTEM", content: MODE_NOTICES[mode] },
+    }),
+  ]);
+
+  return { session, message };
+}
+
+/**
+ * Flags the session for Marin. Returns null when there is nothing to do:
+ * Marin is already answering or the visitor already asked.
+ */
+export async function requestHuman(session: ChatSession): Promise<HandoffChange | null> {
+  if (session.mode === "HUMAN" || session.humanRequestedAt) {
+    return null;
+  }
+
+  const [updated, message] = await prisma.$transaction([
+    prisma.chatSession.update({
+      where: { id: session.id },
+      data: { humanRequestedAt: new Date() },
+    }),
+    prisma.chatMessage.create({
+      data: { sessionId: session.id, role: "SYSTEM", content: HUMAN_REQUESTED_NOTICE },
+    }),
+  ]);
+
+  return { session: updated, message };
+}
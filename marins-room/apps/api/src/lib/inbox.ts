@@ -0,0 +1,181 @@
+import { Prisma, type ChatMessage, type ChatSession } from "@prisma/client";
+
+import { prisma } from "./prisma.js";
+import { toVisitorMessage, toVisitorSession } from "./triage.js";
+
+// Active sessions sent to an admin when they open the inbox
+const INBOX_LIMIT = 50;
+// Past sessions a visitor is offered to pick up again
+const VISITOR_SESSIONS_LIMIT = 20;
+
+export type InboxSessionRecord = ChatSession & {
+  messageCount: number;
+  unreadCount: number;
+  waitingSince: Date | null;
+  lastMessage: ChatMessage | null;
+};
+
+type SessionWithLatest = ChatSession & {
+  messages: ChatMessage[];
+  _count: { messages: number };
+};
+
+const withLatest = {
+  messages: { orderBy: { createdAt: "desc" as const }, take: 1 },
+  _count: { select: { messages: true } },
+};
+
+interface UnreadRow {
+  sessionId: string;
+  unreadCount: number;
+  oldestUnread: Date | null;
+}
+
+/**
+ * Unread visitor messages per session, in one query. Visitor messages are
+ * unread until Marin opens the session or replies to it.
+ */
+async function getUnreadCounts(sessionIds: string[]) {
+  if (sessionIds.length === 0) return new Map<string, UnreadRow>();
+
+  const rows = await prisma.$queryRaw<UnreadRow[]>(Prisma.sql`
+    SELECT
+      s.id AS "sessionId",
+      count(m.id)::int AS "unreadCount",
+      min(m.created_at) AS "oldestUnread"
+    FROM chat_sessions s
+    LEFT JOIN LATERAL (
+      SELECT max(a.created_at) AS replied_at
+      FROM chat_messages a
+      WHERE a.session_id = s.id AND a.role::text = 'ADMIN'
+    ) admin ON TRUE
+    LEFT JOIN chat_messages m
+      ON m.session_id = s.id
+      AND m.role::text = 'USER'
+      AND m.created_at > COALESCE(GREATEST(s.admin_read_at, admin.replied_at), '-infinity')
+    WHERE s.id IN (${Prisma.join(sessionIds)})
+    GROUP BY s.id
+  `);
+  return new Map(rows.map((row) => [row.sessionId, row]));
+}
+
+/**
+ * Adds the inbox fields to sessions loaded with `withLatest`.
+ */
+export async function toInboxSessions(
+  sessions: SessionWithLatest[]
+): Promise<InboxSessionRecord[]> {
+  const unread = await getUnreadCounts(sessions.map((session) => session.id));
+
+  return sessions.map(({ messages, _count, ...session }) => {
+    const { unreadCount = 0, oldestUnread = null } = unread.get(session.id) ?? {};
+
+    const waitingSince =
+      [session.humanRequestedAt, oldestUnread]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+
+    return {
+      ...session,
+      messageCount: _count.messages,
+      unreadCount,
+      waitingSince,
+      lastMessage: messages[0] ?? null,
+    };
+  });
+}
+
+/**
+ * One session's inbox entry, or null if it no longer exists.
+ */
+export async function getInboxSession(sessionId: string) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    include: withLatest,
+  });
+
+  return session ? (await toInboxSessions([session]))[0]! : null;
+}
+
+/**
+ * The active sessions an admin sees when opening the inbox, most recently
+ * updated first (clients sort them by waiting time).
+ */
+export async function listInboxSessions() {
+  const sessions = await prisma.chatSession.findMany({
+    where: { status: "ACTIVE" },
+    orderBy: { updatedAt: "desc" },
+    take: INBOX_LIMIT,
+    include: withLatest,
+  });
+
+  return toInboxSessions(sessions);
+}
+
+/**
+ * Paginated sessions for the admin list, with inbox fields.
+ */
+export async function listSessionsPage(
+  where: Prisma.ChatSessionWhereInput,
+  skip: number,
+  take: number
+) {
+  const sessions = await prisma.chatSession.findMany({
+    where,
+    skip,
+    take,
+    orderBy: { updatedAt: "desc" },
+    include: withLatest,
+  });
+
+  return toInboxSessions(sessions);
+}
+
+/**
+ * Inbox entries for the given sessions, in the order of the ids.
+ */
+export async function getInboxSessions(sessionIds: string[]) {
+  const sessions = await prisma.chatSession.findMany({
+    where: { id: { in: sessionIds } },
+    include: withLatest,
+  });
+  const byId = new Map(sessions.map((session) => [session.id, session]));
+
+  return toInboxSessions(sessionIds.flatMap((id) => byId.get(id) ?? []));
+}
+
+/**
+ * A visitor's own sessions, most recently updated first, with a preview
+ * of the latest message.
+ */
+export async function listVisitorSessions(visitorId: string) {
+  const sessions = await prisma.chatSession.findMany({
+    where: { visitorId },
+    orderBy: { updatedAt: "desc" },
+    take: VISITOR_SESSIONS_LIMIT,
+    include: withLatest,
+  });
+
+  return sessions.map(({ messages, _count, ...session }) => ({
+    ...toVisitorSession(session),
+    messageCount: _count.messages,
+    lastMessage: messages[0] ? toVisitorMessage(messages[0]) : null,
+  }));
+}
+
+/**
+ * Records that Marin has seen everything in the session so far.
+ */
+export async function markSessionRead(sessionId: string) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { updatedAt: true },
+  });
+  if (!session) return;
+
+  // Keep updatedAt: opening a session isn't activity in it
+  await prisma.chatSession.update({
+    where: { id: sessionId },
+    data: { adminReadAt: new Date(), updatedAt: session.updatedAt },
+  });
+}
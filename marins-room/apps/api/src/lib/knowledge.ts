@@ -0,0 +1,245 @@
+import { Prisma, type KnowledgeSourceType } from "@prisma/client";
+
+import { readBlogPosts } from "./blog.js";
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+
+export interface KnowledgeSource {
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+  content: string;
+}
+
+// A type alias (not an interface) so it is assignable to Prisma's JSON input
+export type ChatCitation = {
+  index: number;
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+};
+
+// Target chunk size in characters (~200 tokens), split on paragraph breaks
+const CHUNK_SIZE = 800;
+const MAX_RESULTS = 4;
+
+// Must match the expression used in searchKnowledge() for the index to be used
+const SEARCH_INDEX_SQL = `CREATE INDEX IF NOT EXISTS knowledge_chunks_search_idx ON knowledge_chunks USING GIN (to_tsvector('english', title || ' ' || content))`;
+
+/**
+ * Reduces MDX to plain prose: drops imports/exports, JSX tags, code fences
+ * and markdown punctuation that would only add noise to search and prompts.
+ */
+function mdxToText(source: string): string {
+  return source
+    .replace(/^(import|export)\s.*$/gm, "")
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/[*_`]/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function chunkText(text: string, size = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length > size) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${trimmed}` : trimmed;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+async function replaceSourceChunks(source: KnowledgeSource) {
+  const chunks = chunkText(source.content);
+
+  await prisma.$transaction([
+    prisma.knowledgeChunk.deleteMany({
+      where: { sourceType: source.sourceType, sourceId: source.sourceId },
+    }),
+    prisma.knowledgeChunk.createMany({
+      data: chunks.map((content, chunkIndex) => ({
+        sourceType: source.sourceType,
+        sourceId: source.sourceId,
+        title: source.title,
+        chunkIndex,
+        content,
+      })),
+    }),
+  ]);
+
+  return chunks.length;
+}
+
+export function readBlogSources(): KnowledgeSource[] {
+  return readBlogPosts().map((post) => ({
+    sourceType: "BLOG_POST" as const,
+    sourceId: post.slug,
+    title: post.title,
+    content: post.description
+      ? `${post.description}\n\n${mdxToText(post.content)}`
+      : mdxToText(post.content),
+  }));
+}
+
+/**
+ * Indexes (or re-indexes) one video. Only READY videos are searchable; any
+ * other status removes the video from the index.
+ */
+export async function indexVideo(video: {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+}) {
+  if (video.status !== "READY") {
+    await prisma.knowledgeChunk.deleteMany({
+      where: { sourceType: "VIDEO", sourceId: video.id },
+    });
+    return 0;
+  }
+
+  return replaceSourceChunks({
+    sourceType: "VIDEO",
+    sourceId: video.id,
+    title: video.title,
+    content: video.description ? `${video.title}\n\n${video.description}` : video.title,
+  });
+}
+
+/**
+ * Rebuilds the whole knowledge index from the blog directory and the READY
+ * videos, removing chunks for posts and videos that no longer exist.
+ */
+export async function reindexKnowledge() {
+  await prisma.$executeRawUnsafe(SEARCH_INDEX_SQL);
+
+  const posts = readBlogSources();
+  let chunkCount = 0;
+  for (const post of posts) {
+    chunkCount += await replaceSourceChunks(post);
+  }
+
+  const videos = await prisma.video.findMany({
+    where: { status: "READY" },
+    select: { id: true, title: true, description: true, status: true },
+  });
+  for (const video of videos) {
+    chunkCount += await indexVideo(video);
+  }
+
+  await prisma.knowledgeChunk.deleteMany({
+    where: {
+      OR: [
+        { sourceType: "BLOG_POST", sourceId: { notIn: posts.map((p) => p.sourceId) } },
+        { sourceType: "VIDEO", sourceId: { notIn: videos.map((v) => v.id) } },
+      ],
+    },
+  });
+
+  logger.info(
+    `Knowledge index rebuilt: ${posts.length} posts, ${videos.length} videos, ${chunkCount} chunks`
+  );
+
+  return { posts: posts.length, videos: videos.length, chunks: chunkCount };
+}
+
+/**
+ * Turns a visitor question into an OR-query of its words, so passages
+ * matching any of them are found and ranking decides the best ones.
+ * Stop words are dropped by Postgres' english configuration.
+ */
+function toTsQuery(question: string): string | null {
+  const words = [...new Set(question.toLowerCase().match(/[a-z0-9]{3,}/g) ?? [])].slice(0, 12);
+  return words.length > 0 ? words.join(" | ") : null;
+}
+
+/**
+ * Full-text search over the knowledge index. Returns the best matching
+ * passages, at most one per source.
+ */
+export async function searchKnowledge(
+  question: string,
+  limit = MAX_RESULTS
+): Promise<KnowledgeSource[]> {
+  const tsQuery = toTsQuery(question);
+  if (!tsQuery) return [];
+
+  try {
+    const rows = await prisma.$queryRaw<KnowledgeSource[]>(Prisma.sql`
+      SELECT source_type AS "sourceType", source_id AS "sourceId", title, content
+      FROM knowledge_chunks, to_tsquery('english', ${tsQuery}) AS query
+      WHERE to_tsvector('english', title || ' ' || content) @@ query
+      ORDER BY ts_rank(to_tsvector('english', title || ' ' || content), query) DESC
+      LIMIT ${limit * 3}
+    `);
+
+    // Keep the best passage per post/video so one source can't fill every slot
+    const seen = new Set<string>();
+    return rows
+      .filter((row) => {
+        const key = `${row.sourceType}:${row.sourceId}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit);
+  } catch (error) {
+    // Grounding is best-effort: answer without it rather than fail the chat
+    logger.error("Knowledge search failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Formats retrieved passages as numbered reference material for the
+ * assistant's instructions.
+ */
+export function formatKnowledgeInstructions(sources: KnowledgeSource[]): string | undefined {
+  if (sources.length === 0) return undefined;
+
+  const passages = sources
+    .map((source, i) => {
+      const kind = source.sourceType === "BLOG_POST" ? "Blog post" : "Video";
+      return `[${i + 1}] ${kind}: "${source.title}"\n${source.content}`;
+    })
+    .join("\n\n");
+
+  return `Reference material about Marin from their blog and videos:\n\n${passages}\n\nUse this material when it is relevant and cite it with its number in square brackets, like [1]. Do not cite sources you did not use, and do not claim anything about Marin that is not supported by the material.`;
+}
+
+/**
+ * Picks the sources the reply actually cites via [n] markers.
+ */
+export function extractCitations(reply: string, sources: KnowledgeSource[]): ChatCitation[] {
+  const cited = new Set([...reply.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])));
+
+  return sources.flatMap((source, i) =>
+    cited.has(i + 1)
+      ? [
+          {
+            index: i + 1,
+            sourceType: source.sourceType,
+            sourceId: source.sourceId,
+            title: source.title,
+          },
+        ]
+      : []
+  );
+}
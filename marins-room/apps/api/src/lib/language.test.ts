@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { detectLanguage, languageName, replyLanguageInstructions } from "./language.js";
+
+describe("detectLanguage", () => {
+  it.each([
+    ["en", "Hi, what camera do you use for the videos?"],
+    ["es", "Hola, ¿qué cámara usas para los vídeos?"],
+    ["fr", "Bonjour, quelle caméra est-ce que vous utilisez pour les vidéos ?"],
+    ["de", "Hallo, welche Kamera benutzt du für die Videos?"],
+    ["it", "Ciao, che fotocamera usi per i video? Grazie"],
+    ["pt", "Olá, qual câmera você usa para os vídeos? Obrigado"],
+    ["nl", "Hallo, welke camera gebruik je voor de video's? Bedankt"],
+  ])("tells %s apart by its common words", (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it.each([
+    ["ja", "こんにちは、動画で使っているカメラは何ですか？"],
+    ["zh", "你好，你的视频用的是什么相机？"],
+    ["ko", "안녕하세요, 영상에 어떤 카메라를 쓰세요?"],
+    ["ru", "Привет, какой камерой ты снимаешь видео?"],
+    ["uk", "Привіт, якою камерою ти знімаєш відео?"],
+    ["el", "Γεια σου, ποια κάμερα χρησιμοποιείς;"],
+    ["ar", "مرحبا، ما الكاميرا التي تستخدمها؟"],
+  ])("tells %s apart by its alphabet", (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it("gives up on messages too short or too mixed to tell", () => {
+    expect(detectLanguage("ok")).toBeNull();
+    expect(detectLanguage("lol 👍")).toBeNull();
+    expect(detectLanguage("hola hello")).toBeNull();
+  });
+
+  it("ignores links, email addresses and numbers", () => {
+    expect(detectLanguage("https://example.com/la-vie-en-rose 42")).toBeNull();
+    expect(detectLanguage("marin@example.com 123 456")).toBeNull();
+  });
+});
+
+describe("languageName", () => {
+  it("names known languages and passes unknown codes through", () => {
+    expect(languageName("es")).toBe("Spanish");
+    expect(languageName("xx")).toBe("xx");
+  });
+});
+
+describe("replyLanguageInstructions", () => {
+  it("asks for the session's language once it is known", () => {
+    expect(replyLanguageInstructions("de")).toContain("Reply in German");
+  });
+
+  it("asks to mirror the visitor before then", () => {
+    expect(replyLanguageInstructions(null)).toBe("Reply in the language the visitor writes in.");
+  });
+});
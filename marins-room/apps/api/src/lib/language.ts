@@ -0,0 +1,108 @@
+import { CHAT_LANGUAGES, type ChatLanguage } from "@marins-room/shared";
+
+// Languages told apart by their alphabet; the share of letters in the
+// script decides (Japanese is checked before Chinese, which shares Han)
+const SCRIPTS: Array<[ChatLanguage, RegExp]> = [
+  ["ko", /\p{Script=Hangul}/gu],
+  ["ja", /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ["zh", /\p{Script=Han}/gu],
+  ["ru", /\p{Script=Cyrillic}/gu],
+  ["el", /\p{Script=Greek}/gu],
+  ["ar", /\p{Script=Arabic}/gu],
+  ["he", /\p{Script=Hebrew}/gu],
+  ["hi", /\p{Script=Devanagari}/gu],
+  ["th", /\p{Script=Thai}/gu],
+];
+
+// Letters only Ukrainian uses among Cyrillic languages
+const UKRAINIAN_LETTERS = /[ґєії]/iu;
+
+// Latin-script languages are told apart by their most common short words;
+// a few dozen per language is enough for chat messages, not for documents
+const WORD_LISTS: Partial<Record<ChatLanguage, string>> = {
+  en: "the and is are you i to of what how this that it my do can have with for not your was be me hello hi thanks please where why when",
+  es: "el la los las que y es en un una por para con no como qué cómo hola gracias está pero mi tu muy yo dónde quién del se",
+  fr: "le la les des est et un une je vous tu pas que qui pour dans avec bonjour merci c'est mais ne du au où comment pourquoi suis très",
+  de: "der die das und ist ich nicht ein eine du sie wie was mit für auf hallo danke bitte sind zu den dem auch es wo warum kann",
+  it: "il lo gli che di e è un una non per con come ciao grazie sono della mi ti sei perché dove questo cosa",
+  pt: "o os as que de e é um uma não para com como olá obrigado obrigada você está em do da mas muito eu onde",
+  nl: "de het een en is ik je niet van dat wat hoe met voor hallo dank bedankt zijn op te er maar waar waarom",
+};
+
+const STOPWORDS = Object.entries(WORD_LISTS).map(
+  ([language, words]) => [language as ChatLanguage, new Set(words.split(" "))] as const
+);
+
+// Letters that point strongly to one language; each counts as two words
+const HINT_LETTERS: Partial<Record<ChatLanguage, RegExp>> = {
+  es: /[ñ¿¡]/iu,
+  fr: /[œèêëùûî]/iu,
+  de: /[ßäöü]/iu,
+  pt: /[ãõ]/iu,
+  it: /[òì]/iu,
+};
+
+// Fewer matching words than this is too little to go on ("ok", "lol")
+const MIN_WORD_MATCHES = 2;
+
+// Left out before detecting: they read the same in every language
+const NOISE_PATTERN = /https?:\/\/\S+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+|\d+/g;
+
+function detectScript(text: string, letters: number): ChatLanguage | null {
+  for (const [language, pattern] of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > 0 && count * 2 >= letters) {
+      return language === "ru" && UKRAINIAN_LETTERS.test(text) ? "uk" : language;
+    }
+  }
+  return null;
+}
+
+function detectLatin(text: string): ChatLanguage | null {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const scores = STOPWORDS.map(([language, stopwords]) => {
+    const matches = words.filter((word) => stopwords.has(word)).length;
+    const hint = HINT_LETTERS[language]?.test(text) ? 2 : 0;
+    return { language, score: matches + hint };
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (!best || best.score < MIN_WORD_MATCHES || best.score === runnerUp?.score) {
+    return null;
+  }
+  return best.language;
+}
+
+/**
+ * Guesses the language of a chat message from its alphabet and common
+ * words, without calling the AI. Returns null when the message is too
+ * short or too mixed to tell.
+ */
+export function detectLanguage(text: string): ChatLanguage | null {
+  const cleaned = text.replace(NOISE_PATTERN, " ");
+  const letters = cleaned.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  return detectScript(cleaned, letters) ?? detectLatin(cleaned);
+}
+
+/**
+ * The English name of a language code ("es" → "Spanish"), for prompts and
+ * labels. Unknown codes are returned as they are.
+ */
+export function languageName(language: string): string {
+  return CHAT_LANGUAGES[language as ChatLanguage] ?? language;
+}
+
+/**
+ * Tells the AI which language to reply in: the session's, or whatever the
+ * visitor writes in when it isn't known yet.
+ */
+export function replyLanguageInstructions(language: string | null): string {
+  if (!language) {
+    return "Reply in the language the visitor writes in.";
+  }
+  const name = languageName(language);
+  return `The visitor writes in ${name}. Reply in ${name}, even though these instructions are in English.`;
+}
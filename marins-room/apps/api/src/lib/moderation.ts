@@ -0,0 +1,159 @@
+import type { ModerationFlag } from "@prisma/client";
+
+import { env } from "../config/env.js";
+
+// Deliberately short: catches the obvious cases, the rest is up to Marin
+const PROFANITY = [
+  "fuck",
+  "fucking",
+  "shit",
+  "bullshit",
+  "bitch",
+  "asshole",
+  "cunt",
+  "dick",
+  "bastard",
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 13-19 digits, optionally grouped with spaces or dashes
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// "+1 (555) 123-4567", "555-123-4567", "5551234567"... but not dates like
+// 2024-01-15 (run after cards, which are longer)
+const PHONE_PATTERN =
+  /(?<!\d[ .-]?)(?:(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?|\b\d{2,4}[ .-])\d{3,4}[ .-]?\d{3,4}|\b\d{10,11})(?![ .-]?\d)/g;
+
+export interface ModerationResult {
+  // Set when the message must be rejected
+  blocked: string | null;
+  // What gets stored (profanity may be masked)
+  content: string;
+  // What the AI sees, or null when it's the same as content
+  aiContent: string | null;
+  flags: ModerationFlag[];
+}
+
+interface Draft {
+  content: string;
+  aiContent: string;
+  flags: Set<ModerationFlag>;
+  blocked: string | null;
+}
+
+type ModerationStep = (draft: Draft) => void;
+
+function termsPattern(terms: string[]) {
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`\\b(?:${escaped.join("|")})\\b`, "gi");
+}
+
+function luhnValid(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function redactPII(text: string) {
+  let found = false;
+
+  const redacted = text
+    .replace(EMAIL_PATTERN, () => {
+      found = true;
+      return "[email]";
+    })
+    .replace(CARD_PATTERN, (match) => {
+      if (!luhnValid(match.replace(/\D/g, ""))) return match;
+      found = true;
+      return "[card number]";
+    })
+    .replace(PHONE_PATTERN, () => {
+      found = true;
+      return "[phone]";
+    });
+
+  return { redacted, found };
+}
+
+const blocklistStep = (terms: string[]): ModerationStep => {
+  const pattern = termsPattern(terms);
+  return (draft) => {
+    if (draft.content.search(pattern) !== -1) {
+      draft.blocked = "This message contains blocked content";
+    }
+  };
+};
+
+const profanityStep = (action: "flag" | "mask" | "block"): ModerationStep => {
+  const pattern = termsPattern(PROFANITY);
+  return (draft) => {
+    if (draft.content.search(pattern) === -1) return;
+
+    if (action === "block") {
+      draft.blocked = "Please keep the conversation friendly";
+      return;
+    }
+
+    draft.flags.add("PROFANITY");
+    if (action === "mask") {
+      const mask = (word: string) => word[0] + "*".repeat(word.length - 1);
+      draft.content = draft.content.replace(pattern, mask);
+      draft.aiContent = draft.aiContent.replace(pattern, mask);
+    }
+  };
+};
+
+const piiStep = (redact: boolean): ModerationStep => {
+  return (draft) => {
+    const { redacted, found } = redactPII(draft.aiContent);
+    if (!found) return;
+
+    draft.flags.add("PII");
+    if (redact) {
+      draft.aiContent = redacted;
+    }
+  };
+};
+
+function buildPipeline(): ModerationStep[] {
+  const steps: ModerationStep[] = [];
+
+  if (env.MODERATION_BLOCKLIST.length > 0) {
+    steps.push(blocklistStep(env.MODERATION_BLOCKLIST));
+  }
+  if (env.MODERATION_PROFANITY !== "off") {
+    steps.push(profanityStep(env.MODERATION_PROFANITY));
+  }
+  steps.push(piiStep(env.MODERATION_REDACT_PII));
+
+  return steps;
+}
+
+const pipeline = buildPipeline();
+
+/**
+ * Runs a visitor message through the moderation pipeline before it is
+ * saved: blocklist, then profanity, then PII. Stops at the first step that
+ * blocks the message.
+ */
+export function moderateMessage(content: string): ModerationResult {
+  const draft: Draft = { content, aiContent: content, flags: new Set(), blocked: null };
+
+  for (const step of pipeline) {
+    step(draft);
+    if (draft.blocked) break;
+  }
+
+  return {
+    blocked: draft.blocked,
+    content: draft.content,
+    aiContent: draft.aiContent === draft.content ? null : draft.aiContent,
+    flags: [...draft.flags],
+  };
+}
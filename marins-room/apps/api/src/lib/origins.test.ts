@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { ALLOWED_ORIGINS, isAllowedOrigin, isEmbedOrigin } from "./origins.js";
+
+// WEB_ORIGIN and EMBED_ORIGINS come from vitest.config.ts
+const WEB_ORIGIN = "http://localhost:3000";
+const EMBED_ORIGIN = "https://friend.example";
+
+describe("origin allowlist", () => {
+  it("is the web app and the embedding sites", () => {
+    expect(ALLOWED_ORIGINS).toEqual([WEB_ORIGIN, EMBED_ORIGIN]);
+  });
+
+  it("allows the web app and embedding sites", () => {
+    expect(isAllowedOrigin(WEB_ORIGIN)).toBe(true);
+    expect(isAllowedOrigin(EMBED_ORIGIN)).toBe(true);
+  });
+
+  it("allows requests that don't come from a web page", () => {
+    expect(isAllowedOrigin(undefined)).toBe(true);
+  });
+
+  it("refuses other sites, including near misses", () => {
+    expect(isAllowedOrigin("https://evil.example")).toBe(false);
+    expect(isAllowedOrigin("http://friend.example")).toBe(false);
+    expect(isAllowedOrigin("https://friend.example.evil.example")).toBe(false);
+    expect(isAllowedOrigin(`${EMBED_ORIGIN}/`)).toBe(false);
+    expect(isAllowedOrigin("null")).toBe(false);
+  });
+});
+
+describe("isEmbedOrigin", () => {
+  it("is true only for embedding sites", () => {
+    expect(isEmbedOrigin(EMBED_ORIGIN)).toBe(true);
+    expect(isEmbedOrigin(WEB_ORIGIN)).toBe(false);
+    expect(isEmbedOrigin("https://evil.example")).toBe(false);
+    expect(isEmbedOrigin(undefined)).toBe(false);
+  });
+});
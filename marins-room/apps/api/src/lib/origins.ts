@@ -0,0 +1,20 @@
+import { env } from "../config/env.js";
+
+// Sites whose pages may call the API: the web app and the sites embedding
+// the chat widget
+export const ALLOWED_ORIGINS = [env.WEB_ORIGIN, ...env.EMBED_ORIGINS];
+
+/**
+ * Whether an Origin header is one of EMBED_ORIGINS.
+ */
+export function isEmbedOrigin(origin: string | undefined): boolean {
+  return origin !== undefined && env.EMBED_ORIGINS.includes(origin);
+}
+
+/**
+ * Whether a browser on this origin may open a chat socket. Requests without
+ * an Origin header don't come from a web page, so they're let through.
+ */
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  return origin === undefined || ALLOWED_ORIGINS.includes(origin);
+}
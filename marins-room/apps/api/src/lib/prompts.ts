@@ -0,0 +1,96 @@
+import type { PromptVersion } from "@prisma/client";
+
+import { SYSTEM_PROMPT } from "./ai.js";
+import { prisma } from "./prisma.js";
+
+export interface SessionPrompt {
+  // null for the built-in SYSTEM_PROMPT
+  promptVersionId: string | null;
+  content: string;
+}
+
+/**
+ * Picks the prompt version for a new session: one of the active versions,
+ * chosen at random in proportion to their weights. Returns null (the
+ * built-in SYSTEM_PROMPT) when none is active.
+ */
+export async function pickPromptVersion(): Promise<string | null> {
+  const active = await prisma.promptVersion.findMany({
+    where: { weight: { gt: 0 } },
+    select: { id: true, weight: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const total = active.reduce((sum, version) => sum + version.weight, 0);
+  let roll = Math.random() * total;
+  for (const version of active) {
+    roll -= version.weight;
+    if (roll < 0) return version.id;
+  }
+  return null;
+}
+
+/**
+ * The system prompt the session was assigned when it started. Sessions
+ * keep it even after that version is deactivated, so a conversation never
+ * changes voice halfway through.
+ */
+export async function getSessionPrompt(sessionId: string): Promise<SessionPrompt> {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { promptVersion: { select: { id: true, content: true } } },
+  });
+
+  const version = session?.promptVersion;
+  return version
+    ? { promptVersionId: version.id, content: version.content }
+    : { promptVersionId: null, content: SYSTEM_PROMPT };
+}
+
+/**
+ * Makes exactly the given versions active with the given weights, for new
+ * sessions (one version, or several for an A/B test). An empty list goes
+ * back to the built-in prompt; activating an older version is a rollback.
+ *
+ * Returns false, changing nothing, if a version doesn't exist.
+ */
+export async function setActivePromptVersions(
+  variants: Array<Pick<PromptVersion, "id" | "weight">>
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const ids = variants.map((variant) => variant.id);
+    const found = await tx.promptVersion.count({ where: { id: { in: ids } } });
+    if (found !== new Set(ids).size) return false;
+
+    await tx.promptVersion.updateMany({
+      where: { weight: { gt: 0 }, id: { notIn: ids } },
+      data: { weight: 0 },
+    });
+    for (const { id, weight } of variants) {
+      await tx.promptVersion.update({ where: { id }, data: { weight } });
+    }
+    return true;
+  });
+}
+
+/**
+ * Every version, newest first, with how many sessions were assigned each.
+ */
+export async function listPromptVersions() {
+  const versions = await prisma.promptVersion.findMany({
+    orderBy: { createdAt: "desc" },
+    include: { _count: { select: { sessions: true } } },
+  });
+
+  return {
+    versions: versions.map(toPromptVersion),
+    defaultPrompt: SYSTEM_PROMPT,
+  };
+}
+
+export function toPromptVersion({
+  _count,
+  ...version
+}: PromptVersion & { _count?: { sessions: number } }) {
+  return { ...version, sessionCount: _count?.sessions ?? 0 };
+}
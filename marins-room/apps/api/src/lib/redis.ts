@@ -49,7 +49,8 @@
  * ----------------------------
  * - config/env.ts: Provides REDIS_URL
  * - middleware/rateLimit.ts: Uses checkRateLimit function
- * - index.ts: Closes connection on shutdown
+ * - websocket/broadcast.ts: Fans chat events out to every API instance
+ * - index.ts: Closes connections on shutdown
  */
 
 import Redis from "ioredis";
@@ -101,6 +102,26 @@ redis.on("error", (error: Error) => {
   logger.error("Redis error:", error);
 });
 
+/**
+ * Redis subscriber connection
+ *
+ * PSEUDOCODE:
+ * -----------
+ * A connection that has SUBSCRIBEd can't run normal commands any more,
+ * so pub/sub listeners need a connection of their own.
+ *
+ * duplicate() creates a second client with the same URL and options
+ * (maxRetriesPerRequest, lazyConnect) as `redis` above.
+ *
+ * Used by websocket/broadcast.ts to receive chat events published by
+ * any API instance. Publishing uses the normal `redis` client.
+ */
+export const redisSubscriber = redis.duplicate();
+
+redisSubscriber.on("error", (error: Error) => {
+  logger.error("Redis subscriber error:", error);
+});
+
 // ============================================================================
 // RATE LIMITING UTILITIES
 // ============================================================================
@@ -0,0 +1,42 @@
+import type { ChatSession } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+
+import { fillPlaceholders, findUnknownPlaceholders } from "./savedReplies.js";
+
+function session(visitorName: string | null) {
+  return { visitorName } as ChatSession;
+}
+
+describe("findUnknownPlaceholders", () => {
+  it("accepts the known placeholders, with or without spaces", () => {
+    expect(findUnknownPlaceholders("Hi {{firstName}}! Thanks, {{ visitorName }}.")).toEqual([]);
+  });
+
+  it("lists each unknown placeholder once", () => {
+    expect(findUnknownPlaceholders("{{frstName}} {{email}} {{frstName}} {{firstName}}")).toEqual([
+      "frstName",
+      "email",
+    ]);
+  });
+
+  it("ignores text that isn't a placeholder", () => {
+    expect(findUnknownPlaceholders("Use {single} braces or {{ two words }}")).toEqual([]);
+  });
+});
+
+describe("fillPlaceholders", () => {
+  it("fills in the visitor's full and first name", () => {
+    expect(fillPlaceholders("Hi {{firstName}} ({{visitorName}})", session("Ada Lovelace"))).toBe(
+      "Hi Ada (Ada Lovelace)"
+    );
+  });
+
+  it("falls back to 'there' without a name", () => {
+    expect(fillPlaceholders("Hi {{ firstName }}!", session(null))).toBe("Hi there!");
+    expect(fillPlaceholders("Hi {{visitorName}}!", session("   "))).toBe("Hi there!");
+  });
+
+  it("leaves unknown placeholders as they are", () => {
+    expect(fillPlaceholders("Hi {{nickname}}", session("Ada"))).toBe("Hi {{nickname}}");
+  });
+});
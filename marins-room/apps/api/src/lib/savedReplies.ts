@@ -0,0 +1,28 @@
+import type { ChatSession } from "@prisma/client";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// What each {{placeholder}} in a saved reply is replaced with
+const VARIABLES: Record<string, (session: ChatSession) => string> = {
+  visitorName: (session) => session.visitorName?.trim() || "there",
+  firstName: (session) => session.visitorName?.trim().split(/\s+/)[0] || "there",
+};
+
+/**
+ * Placeholders in a saved reply that can't be filled, so typos are caught
+ * when the reply is saved rather than sent.
+ */
+export function findUnknownPlaceholders(content: string): string[] {
+  const names = [...content.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!);
+  return [...new Set(names.filter((name) => !Object.hasOwn(VARIABLES, name)))];
+}
+
+/**
+ * Fills a saved reply's placeholders for one session. Unknown ones are
+ * left as they are.
+ */
+export function fillPlaceholders(content: string, session: ChatSession): string {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(VARIABLES, name) ? VARIABLES[name]!(session) : placeholder
+  );
+}
@@ -0,0 +1,39 @@
+import type { ChatCloseReason } from "@marins-room/shared";
+import type { ChatMessage, ChatSession } from "@prisma/client";
+
+import { prisma } from "./prisma.js";
+
+const CLOSE_NOTICES: Record<ChatCloseReason, string> = {
+  ADMIN: "Marin has closed this chat.",
+  IDLE: "This chat was closed after a period of inactivity.",
+};
+
+export interface SessionClosure {
+  session: ChatSession;
+  // SYSTEM message recording the close in the transcript
+  message: ChatMessage;
+}
+
+/**
+ * Closes the session and adds a SYSTEM notice saying why. Returns null if
+ * it was already closed, so closing twice doesn't notify anyone twice.
+ */
+export async function closeSession(
+  sessionId: string,
+  reason: ChatCloseReason
+): Promise<SessionClosure | null> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.chatSession.updateMany({
+      where: { id: sessionId, status: "ACTIVE" },
+      data: { status: "CLOSED" },
+    });
+    if (count === 0) return null;
+
+    const message = await tx.chatMessage.create({
+      data: { sessionId, role: "SYSTEM", content: CLOSE_NOTICES[reason] },
+    });
+    const session = await tx.chatSession.findUniqueOrThrow({ where: { id: sessionId } });
+
+    return { session, message };
+  });
+}
@@ -0,0 +1,179 @@
+import type { HighlightedText, SearchSessionsQueryInput } from "@marins-room/shared";
+import { Prisma, type MessageRole } from "@prisma/client";
+
+import { getInboxSessions, listSessionsPage, type InboxSessionRecord } from "./inbox.js";
+import { logger } from "./logger.js";
+import { prisma } from "./prisma.js";
+
+// Must match the expression used in the queries below for the index to be used
+const SEARCH_INDEX_SQL = `CREATE INDEX IF NOT EXISTS chat_messages_search_idx ON chat_messages USING GIN (to_tsvector('english', content))`;
+
+// Private-use characters, so highlights can't be confused with message text
+const START_SEL = "\uE000";
+const STOP_SEL = "\uE001";
+const HEADLINE_OPTIONS = `StartSel="${START_SEL}", StopSel="${STOP_SEL}", MinWords=8, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export type SessionSearchRecord = InboxSessionRecord & {
+  match: { messageId: string; role: MessageRole; snippet: HighlightedText } | null;
+};
+
+type HeadlineRow = {
+  sessionId: string;
+  messageId: string;
+  role: MessageRole;
+  snippet: string;
+};
+
+/**
+ * Creates the full-text index on message content. Prisma can't declare
+ * expression indexes, so this runs at startup (and puts the index back
+ * after a `db push` that dropped it).
+ */
+export async function ensureChatSearchIndex() {
+  try {
+    await prisma.$executeRawUnsafe(SEARCH_INDEX_SQL);
+  } catch (error) {
+    // Search still works without the index, just slower
+    logger.error("Failed to create chat search index:", error);
+  }
+}
+
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+function toWhereInput(filters: SearchSessionsQueryInput): Prisma.ChatSessionWhereInput {
+  return {
+    ...(filters.status && { status: filters.status }),
+    ...((filters.from || filters.to) && { createdAt: { gte: filters.from, lt: filters.to } }),
+    ...(filters.visitorName && {
+      visitorName: { contains: filters.visitorName, mode: "insensitive" as const },
+    }),
+    ...(filters.tags && { tags: { hasEvery: filters.tags } }),
+    ...(filters.hasAdminReply !== undefined && {
+      messages: filters.hasAdminReply ? { some: { role: "ADMIN" } } : { none: { role: "ADMIN" } },
+    }),
+  };
+}
+
+// Same filters as toWhereInput(), for the raw full-text query
+function toSqlConditions(filters: SearchSessionsQueryInput): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (filters.status) {
+    conditions.push(Prisma.sql`s.status::text = ${filters.status}`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`s.created_at >= ${filters.from}`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`s.created_at < ${filters.to}`);
+  }
+  if (filters.visitorName) {
+    conditions.push(Prisma.sql`s.visitor_name ILIKE ${`%${escapeLike(filters.visitorName)}%`}`);
+  }
+  if (filters.tags) {
+    conditions.push(Prisma.sql`s.tags @> ${filters.tags}::text[]`);
+  }
+  if (filters.hasAdminReply !== undefined) {
+    const adminReply = Prisma.sql`EXISTS (SELECT 1 FROM chat_messages a WHERE a.session_id = s.id AND a.role::text = 'ADMIN')`;
+    conditions.push(filters.hasAdminReply ? adminReply : Prisma.sql`NOT ${adminReply}`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Splits a ts_headline() result into plain and highlighted parts.
+ */
+function toHighlightedText(headline: string): HighlightedText {
+  return headline
+    .split(new RegExp(`(${START_SEL}[^${STOP_SEL}]*${STOP_SEL})`))
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith(START_SEL)
+        ? { text: part.slice(1, -1), highlight: true }
+        : { text: part.replace(/[\uE000\uE001]/g, ""), highlight: false }
+    );
+}
+
+async function fullTextSearch(q: string, filters: SearchSessionsQueryInput) {
+  const skip = (filters.page - 1) * filters.pageSize;
+  const matching = Prisma.sql`
+    FROM chat_sessions s
+    JOIN (
+      SELECT session_id, max(ts_rank(to_tsvector('english', content), query)) AS rank
+      FROM chat_messages, websearch_to_tsquery('english', ${q}) AS query
+      WHERE to_tsvector('english', content) @@ query
+      GROUP BY session_id
+    ) matches ON matches.session_id = s.id
+    WHERE ${toSqlConditions(filters)}
+  `;
+
+  const [rows, [count]] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+      SELECT s.id ${matching}
+      ORDER BY matches.rank DESC, s.updated_at DESC
+      LIMIT ${filters.pageSize} OFFSET ${skip}
+    `),
+    prisma.$queryRaw<Array<{ total: bigint }>>(Prisma.sql`SELECT count(*) AS total ${matching}`),
+  ]);
+
+  const sessionIds = rows.map((row) => row.id);
+  if (sessionIds.length === 0) {
+    return { sessions: [], total: Number(count?.total ?? 0) };
+  }
+
+  // Best matching message per session, with the search words highlighted
+  const headlines = await prisma.$queryRaw<HeadlineRow[]>(Prisma.sql`
+    SELECT DISTINCT ON (m.session_id)
+      m.session_id AS "sessionId",
+      m.id AS "messageId",
+      m.role AS role,
+      ts_headline('english', m.content, query, ${HEADLINE_OPTIONS}) AS snippet
+    FROM chat_messages m, websearch_to_tsquery('english', ${q}) AS query
+    WHERE m.session_id IN (${Prisma.join(sessionIds)})
+      AND to_tsvector('english', m.content) @@ query
+    ORDER BY m.session_id, ts_rank(to_tsvector('english', m.content), query) DESC, m.created_at DESC
+  `);
+  const matches = new Map(headlines.map((row) => [row.sessionId, row]));
+
+  const sessions = await getInboxSessions(sessionIds);
+  return {
+    sessions: sessions.map((session): SessionSearchRecord => {
+      const match = matches.get(session.id);
+      return {
+        ...session,
+        match: match
+          ? {
+              messageId: match.messageId,
+              role: match.role,
+              snippet: toHighlightedText(match.snippet),
+            }
+          : null,
+      };
+    }),
+    total: Number(count?.total ?? 0),
+  };
+}
+
+/**
+ * Sessions matching the admin's filters. With q, sessions are ranked by
+ * their best matching message (Postgres full-text search) and come with a
+ * highlighted snippet; without it, most recently updated first.
+ */
+export async function searchSessions(
+  filters: SearchSessionsQueryInput
+): Promise<{ sessions: SessionSearchRecord[]; total: number }> {
+  if (filters.q) {
+    return fullTextSearch(filters.q, filters);
+  }
+
+  const where = toWhereInput(filters);
+  const [sessions, total] = await Promise.all([
+    listSessionsPage(where, (filters.page - 1) * filters.pageSize, filters.pageSize),
+    prisma.chatSession.count({ where }),
+  ]);
+
+  return { sessions: sessions.map((session) => ({ ...session, match: null })), total };
+}
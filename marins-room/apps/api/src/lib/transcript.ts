@@ -0,0 +1,210 @@
+import type { TranscriptFormat } from "@marins-room/shared";
+import type {
+  ChatAttachment,
+  ChatFeedback,
+  ChatMessage,
+  ChatSession,
+  ChatToolCall,
+  MessageRole,
+} from "@prisma/client";
+
+type TranscriptMessage = ChatMessage & {
+  toolCalls?: ChatToolCall[];
+  attachments?: ChatAttachment[];
+  feedback?: ChatFeedback | null;
+};
+
+export interface Transcript {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+interface TranscriptOptions {
+  // Admin exports also carry moderation flags, the AI-bound copy, tool
+  // calls and visitor ratings; visitors only get what they saw in the chat
+  internal: boolean;
+}
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  USER: "Visitor",
+  ASSISTANT: "AI assistant",
+  ADMIN: "Marin",
+  SYSTEM: "System",
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sessionDetails(session: ChatSession): Array<[label: string, value: string]> {
+  return [
+    ["Session", session.id],
+    ["Visitor", session.visitorName || "Anonymous"],
+    ["Status", session.status],
+    ["Mode", session.mode],
+    ["Started", session.createdAt.toISOString()],
+    ["Last activity", session.updatedAt.toISOString()],
+  ];
+}
+
+function toJson(
+  session: ChatSession,
+  messages: TranscriptMessage[],
+  { internal }: TranscriptOptions
+) {
+  return JSON.stringify(
+    {
+      session: {
+        id: session.id,
+        visitorName: session.visitorName,
+        status: session.status,
+        mode: session.mode,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        ...(internal && {
+          visitorId: session.visitorId,
+          humanRequestedAt: session.humanRequestedAt,
+          tags: session.tags,
+          priority: session.priority,
+        }),
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        citations: message.citations,
+        attachments: message.attachments?.map(({ fileName, mimeType, fileSizeBytes, url }) => ({
+          fileName,
+          mimeType,
+          fileSizeBytes,
+          url,
+        })),
+        createdAt: message.createdAt,
+        ...(internal && {
+          aiContent: message.aiContent,
+          flags: message.flags,
+          toolCalls: message.toolCalls,
+          feedback: message.feedback,
+        }),
+      })),
+      exportedAt: new Date(),
+    },
+    null,
+    2
+  );
+}
+
+function toMarkdown(
+  session: ChatSession,
+  messages: TranscriptMessage[],
+  { internal }: TranscriptOptions
+) {
+  const lines = [`# Chat with ${session.visitorName || "Anonymous"}`, ""];
+  sessionDetails(session).forEach(([label, value]) => lines.push(`- **${label}:** ${value}`));
+  lines.push("");
+
+  for (const message of messages) {
+    const flags =
+      internal && message.flags.length > 0 ? ` _(flagged: ${message.flags.join(", ")})_` : "";
+    lines.push(`### ${ROLE_LABELS[message.role]} · ${message.createdAt.toISOString()}${flags}`, "");
+    if (message.content) lines.push(message.content, "");
+    message.attachments?.forEach((file) =>
+      lines.push(`- 📎 [${file.fileName.replace(/[[\]]/g, "\\$&")}](${file.url})`)
+    );
+    if (message.attachments?.length) lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function toHtml(
+  session: ChatSession,
+  messages: TranscriptMessage[],
+  { internal }: TranscriptOptions
+) {
+  const title = escapeHtml(`Chat with ${session.visitorName || "Anonymous"}`);
+  const details = sessionDetails(session)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const items = messages
+    .map((message) => {
+      const flags =
+        internal && message.flags.length > 0
+          ? ` <span class="flags">flagged: ${escapeHtml(message.flags.join(", "))}</span>`
+          : "";
+      const files = (message.attachments ?? [])
+        .map(
+          (file) =>
+            `<a class="attachment" href="${escapeHtml(file.url)}">${escapeHtml(file.fileName)}</a>`
+        )
+        .join("");
+      return `<li class="${message.role.toLowerCase()}"><header><strong>${ROLE_LABELS[message.role]}</strong> <time datetime="${message.createdAt.toISOString()}">${message.createdAt.toISOString()}</time>${flags}</header><p>${escapeHtml(message.content)}</p>${files}</li>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.875rem; }
+dt { font-weight: 600; }
+ol { list-style: none; padding: 0; }
+li { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.75rem; background: #f3f4f6; }
+li.user { background: #eff6ff; }
+li.admin { background: #fffbeb; }
+li.system { background: none; text-align: center; font-size: 0.875rem; color: #6b7280; }
+header { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.25rem; }
+.flags { color: #b91c1c; }
+.attachment { display: block; font-size: 0.875rem; margin-top: 0.25rem; }
+p { margin: 0; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>${details}</dl>
+<ol>
+${items}
+</ol>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a session's transcript as a downloadable file.
+ */
+export function renderTranscript(
+  session: ChatSession,
+  messages: TranscriptMessage[],
+  format: TranscriptFormat,
+  options: TranscriptOptions
+): Transcript {
+  const render = { markdown: toMarkdown, json: toJson, html: toHtml }[format];
+
+  return {
+    body: render(session, messages, options),
+    contentType: CONTENT_TYPES[format],
+    filename: `chat-${session.id.slice(0, 8)}-${session.createdAt.toISOString().slice(0, 10)}.${EXTENSIONS[format]}`,
+  };
+}
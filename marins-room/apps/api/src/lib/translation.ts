@@ -0,0 +1,77 @@
+import { ADMIN_LANGUAGE } from "@marins-room/shared";
+import type { ChatMessage, ChatSession } from "@prisma/client";
+
+import { translateText } from "./ai.js";
+import { languageName } from "./language.js";
+import { logger } from "./logger.js";
+import { checkUsageCaps, recordUsage } from "./usage.js";
+
+export interface AdminReply {
+  // What the visitor gets
+  content: string;
+  // Set when the reply was translated
+  language: string | null;
+  originalContent: string | null;
+}
+
+// Translations count towards the session's and today's token caps, like
+// the assistant's replies
+async function translate(
+  sessionId: string,
+  text: string,
+  language: string
+): Promise<string | null> {
+  const capReached = await checkUsageCaps(sessionId);
+  if (capReached) {
+    logger.warn(`Translation into ${language} refused for session ${sessionId}: ${capReached}`);
+    return null;
+  }
+
+  const startedAt = Date.now();
+  const result = await translateText(text, languageName(language));
+  const translation = result.content.trim();
+  if (result.error || !translation) {
+    logger.warn(`Translation into ${language} failed: ${result.error ?? "empty reply"}`);
+    return null;
+  }
+
+  await recordUsage(sessionId, "TRANSLATION", [text], result, startedAt);
+  return translation;
+}
+
+/**
+ * A message in ADMIN_LANGUAGE, for Marin. The AI gets the moderated copy
+ * (PII redacted), like the assistant does. Messages already in
+ * ADMIN_LANGUAGE come back as they are. Returns null if the translation
+ * failed or a token cap is reached.
+ */
+export async function translateForAdmin(
+  message: Pick<ChatMessage, "sessionId" | "content" | "aiContent" | "language">
+): Promise<string | null> {
+  if (message.language === ADMIN_LANGUAGE || !message.content.trim()) {
+    return message.content;
+  }
+  return translate(message.sessionId, message.aiContent ?? message.content, ADMIN_LANGUAGE);
+}
+
+/**
+ * Prepares Marin's reply for sending. With `translateReply`, a reply to a
+ * visitor who writes in another language is translated into theirs and
+ * the original is kept alongside it.
+ *
+ * Returns null if the translation failed (or a token cap is reached), so
+ * the reply isn't sent in a language the visitor may not read.
+ */
+export async function prepareAdminReply(
+  session: Pick<ChatSession, "id" | "language">,
+  content: string,
+  translateReply = false
+): Promise<AdminReply | null> {
+  const language = session.language;
+  if (!translateReply || !language || language === ADMIN_LANGUAGE || !content.trim()) {
+    return { content, language: null, originalContent: null };
+  }
+
+  const translation = await translate(session.id, content, language);
+  return translation ? { content: translation, language, originalContent: content } : null;
+}
@@ -0,0 +1,82 @@
+import type { UpdateChatSessionInput } from "@marins-room/shared";
+import type { ChatSession } from "@prisma/client";
+
+import { prisma } from "./prisma.js";
+
+/**
+ * The session as visitors may see it: without Marin's tags and priority,
+ * or which prompt version (A/B variant) it was assigned.
+ */
+export function toVisitorSession<T extends ChatSession>({
+  tags: _tags,
+  priority: _priority,
+  promptVersionId: _promptVersionId,
+  ...session
+}: T) {
+  return session;
+}
+
+// Moderation and how a message was generated, which visitors don't get
+// to see
+interface InternalMessageFields {
+  flags?: unknown;
+  aiContent?: string | null;
+  model?: string | null;
+  promptVersionId?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  latencyMs?: number | null;
+  toolCalls?: unknown;
+}
+
+/**
+ * A message as visitors may see it: without Marin's moderation flags and
+ * the redacted copy sent to the AI, or the model, prompt version, token
+ * counts and tool calls behind an AI reply, which would give away the A/B
+ * variant toVisitorSession hides.
+ */
+export function toVisitorMessage<T extends InternalMessageFields>({
+  flags: _flags,
+  aiContent: _aiContent,
+  model: _model,
+  promptVersionId: _promptVersionId,
+  promptTokens: _promptTokens,
+  completionTokens: _completionTokens,
+  latencyMs: _latencyMs,
+  toolCalls: _toolCalls,
+  ...message
+}: T) {
+  return message;
+}
+
+/**
+ * Applies Marin's triage changes. Returns null if the session doesn't
+ * exist.
+ */
+export async function updateSessionTriage(sessionId: string, changes: UpdateChatSessionInput) {
+  const session = await prisma.chatSession.findUnique({
+    where: { id: sessionId },
+    select: { updatedAt: true },
+  });
+  if (!session) return null;
+
+  // Keep updatedAt: triage isn't activity in the conversation
+  return prisma.chatSession.update({
+    where: { id: sessionId },
+    data: { ...changes, updatedAt: session.updatedAt },
+  });
+}
+
+/**
+ * Every tag in use, most used first.
+ */
+export async function listTags() {
+  const rows = await prisma.$queryRaw<Array<{ tag: string; count: bigint }>>`
+    SELECT tag, count(*) AS count
+    FROM chat_sessions, unnest(tags) AS tag
+    GROUP BY tag
+    ORDER BY count DESC, tag
+  `;
+
+  return rows.map((row) => ({ tag: row.tag, count: Number(row.count) }));
+}
@@ -0,0 +1,220 @@
+import type { UsageKind, UsageReportQueryInput } from "@marins-room/shared";
+import { Prisma, type AiUsageKind } from "@prisma/client";
+
+import { env } from "../config/env.js";
+
+import type { AIResponse, AIUsage } from "./ai.js";
+import { prisma } from "./prisma.js";
+
+// Conversations listed under "top sessions"
+const TOP_SESSIONS_LIMIT = 10;
+
+interface UsageRow {
+  replies: bigint;
+  promptTokens: bigint | null;
+  completionTokens: bigint | null;
+  avgLatencyMs: number | null;
+}
+
+// Every AI call with usage recorded: replies on their chat message, and
+// the calls that don't write one in ai_usage
+const USAGE = Prisma.sql`(
+  SELECT session_id, model, prompt_tokens, completion_tokens, latency_ms, created_at, 'REPLY' AS kind
+  FROM chat_messages
+  WHERE prompt_tokens IS NOT NULL
+  UNION ALL
+  SELECT session_id, model, prompt_tokens, completion_tokens, latency_ms, created_at, kind::text
+  FROM ai_usage
+) m`;
+
+// Summed the same way in every part of the report. Tokens cover all calls;
+// the reply count and latency only replies.
+const TOTALS = Prisma.sql`
+  count(*) FILTER (WHERE m.kind = 'REPLY') AS replies,
+  sum(m.prompt_tokens) AS "promptTokens",
+  sum(m.completion_tokens) AS "completionTokens",
+  avg(m.latency_ms) FILTER (WHERE m.kind = 'REPLY')::float AS "avgLatencyMs"
+`;
+
+/**
+ * Rough token count (~4 characters per token for English text). Good enough
+ * for budgeting without shipping a tokenizer per provider.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + 4;
+}
+
+/**
+ * Adds one AI call's tokens to a running total, estimated from the text
+ * when the provider doesn't report them.
+ */
+export function addUsage(total: AIUsage, promptTexts: string[], result: AIResponse) {
+  if (result.usage) {
+    total.promptTokens += result.usage.promptTokens;
+    total.completionTokens += result.usage.completionTokens;
+    return;
+  }
+
+  total.promptTokens += promptTexts.reduce((sum, text) => sum + estimateTokens(text), 0);
+  total.completionTokens += estimateTokens(
+    result.toolCalls?.length ? result.content + JSON.stringify(result.toolCalls) : result.content
+  );
+}
+
+/**
+ * Records an AI call that doesn't write a chat message of its own (see
+ * AiUsage in the schema), so the caps and the usage report count it.
+ */
+export async function recordUsage(
+  sessionId: string,
+  kind: AiUsageKind,
+  promptTexts: string[],
+  result: AIResponse,
+  startedAt: number
+) {
+  const usage: AIUsage = { promptTokens: 0, completionTokens: 0 };
+  addUsage(usage, promptTexts, result);
+
+  await prisma.aiUsage.create({
+    data: {
+      sessionId,
+      kind,
+      model: env.AI_MODEL,
+      ...usage,
+      latencyMs: Date.now() - startedAt,
+    },
+  });
+}
+
+function toTotals({ replies, promptTokens, completionTokens, avgLatencyMs }: UsageRow) {
+  const prompt = Number(promptTokens ?? 0);
+  const completion = Number(completionTokens ?? 0);
+  return {
+    replies: Number(replies),
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: prompt + completion,
+    avgLatencyMs: avgLatencyMs === null ? null : Math.round(avgLatencyMs),
+  };
+}
+
+function toSqlConditions({ from, to }: UsageReportQueryInput): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (from) {
+    conditions.push(Prisma.sql`m.created_at >= ${from}`);
+  }
+  if (to) {
+    conditions.push(Prisma.sql`m.created_at < ${to}`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+function startOfUtcDay(date = new Date()) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function sumTokens(where: { sessionId?: string; createdAt?: { gte: Date } }) {
+  const _sum = { promptTokens: true, completionTokens: true } as const;
+  const totals = await Promise.all([
+    prisma.chatMessage.aggregate({ where, _sum }),
+    prisma.aiUsage.aggregate({ where, _sum }),
+  ]);
+  return totals.reduce(
+    (sum, { _sum }) => sum + (_sum.promptTokens ?? 0) + (_sum.completionTokens ?? 0),
+    0
+  );
+}
+
+/**
+ * Checks AI_SESSION_TOKEN_CAP and AI_DAILY_TOKEN_CAP before the assistant
+ * calls the AI. Returns why the reply is refused, or null if it may go
+ * ahead. The reply that crosses a cap still completes; the next one is
+ * refused.
+ */
+export async function checkUsageCaps(sessionId: string): Promise<string | null> {
+  const [sessionTokens, dailyTokens] = await Promise.all([
+    env.AI_SESSION_TOKEN_CAP ? sumTokens({ sessionId }) : 0,
+    env.AI_DAILY_TOKEN_CAP ? sumTokens({ createdAt: { gte: startOfUtcDay() } }) : 0,
+  ]);
+
+  if (env.AI_SESSION_TOKEN_CAP && sessionTokens >= env.AI_SESSION_TOKEN_CAP) {
+    return "Session token cap reached";
+  }
+  if (env.AI_DAILY_TOKEN_CAP && dailyTokens >= env.AI_DAILY_TOKEN_CAP) {
+    return "Daily token cap reached";
+  }
+  return null;
+}
+
+/**
+ * AI token usage: overall, over time, per model, per kind of call, and the
+ * conversations that used the most, along with the configured caps.
+ */
+export async function getUsageReport(filters: UsageReportQueryInput) {
+  const where = toSqlConditions(filters);
+
+  const [totals, timeline, byModel, byKind, topSessions, usedToday] = await Promise.all([
+    prisma.$queryRaw<UsageRow[]>`
+      SELECT ${TOTALS} FROM ${USAGE} WHERE ${where}
+    `,
+    prisma.$queryRaw<Array<UsageRow & { period: Date }>>`
+      SELECT date_trunc(${filters.interval}, m.created_at) AS period, ${TOTALS}
+      FROM ${USAGE}
+      WHERE ${where}
+      GROUP BY period
+      ORDER BY period
+    `,
+    prisma.$queryRaw<Array<UsageRow & { model: string | null }>>`
+      SELECT m.model, ${TOTALS}
+      FROM ${USAGE}
+      WHERE ${where}
+      GROUP BY m.model
+      ORDER BY sum(m.prompt_tokens + m.completion_tokens) DESC
+    `,
+    prisma.$queryRaw<Array<UsageRow & { kind: UsageKind }>>`
+      SELECT m.kind, ${TOTALS}
+      FROM ${USAGE}
+      WHERE ${where}
+      GROUP BY m.kind
+      ORDER BY sum(m.prompt_tokens + m.completion_tokens) DESC
+    `,
+    prisma.$queryRaw<
+      Array<UsageRow & { sessionId: string; visitorName: string | null; createdAt: Date }>
+    >`
+      SELECT
+        s.id AS "sessionId",
+        s.visitor_name AS "visitorName",
+        s.created_at AS "createdAt",
+        ${TOTALS}
+      FROM ${USAGE}
+      JOIN chat_sessions s ON s.id = m.session_id
+      WHERE ${where}
+      GROUP BY s.id
+      ORDER BY sum(m.prompt_tokens + m.completion_tokens) DESC
+      LIMIT ${TOP_SESSIONS_LIMIT}
+    `,
+    sumTokens({ createdAt: { gte: startOfUtcDay() } }),
+  ]);
+
+  return {
+    totals: toTotals(
+      totals[0] ?? { replies: 0n, promptTokens: null, completionTokens: null, avgLatencyMs: null }
+    ),
+    timeline: timeline.map(({ period, ...row }) => ({ period, ...toTotals(row) })),
+    byModel: byModel.map(({ model, ...row }) => ({ model, ...toTotals(row) })),
+    byKind: byKind.map(({ kind, ...row }) => ({ kind, ...toTotals(row) })),
+    topSessions: topSessions.map(({ sessionId, visitorName, createdAt, ...row }) => ({
+      sessionId,
+      visitorName,
+      createdAt,
+      ...toTotals(row),
+    })),
+    caps: {
+      sessionTokens: env.AI_SESSION_TOKEN_CAP ?? null,
+      dailyTokens: env.AI_DAILY_TOKEN_CAP ?? null,
+      usedToday,
+    },
+  };
+}
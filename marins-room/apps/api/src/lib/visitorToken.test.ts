@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  VISITOR_COOKIE,
+  signVisitorToken,
+  verifyVisitorToken,
+  visitorIdFromCookies,
+} from "./visitorToken.js";
+
+const VISITOR_ID = "0b7f6a52-93f4-4d4e-9a4b-3f3e2c1d0a9b";
+
+describe("visitor tokens", () => {
+  it("verify to the visitor id they were signed for", () => {
+    expect(verifyVisitorToken(signVisitorToken(VISITOR_ID))).toBe(VISITOR_ID);
+  });
+
+  it("are refused when the id is swapped", () => {
+    const [, signature] = signVisitorToken(VISITOR_ID).split(".");
+
+    expect(verifyVisitorToken(`someone-else.${signature}`)).toBeNull();
+  });
+
+  it("are refused when the signature is changed", () => {
+    const token = signVisitorToken(VISITOR_ID);
+    const tampered = token.slice(0, -1) + (token.endsWith("A") ? "B" : "A");
+
+    expect(verifyVisitorToken(tampered)).toBeNull();
+    expect(verifyVisitorToken(`${VISITOR_ID}.short`)).toBeNull();
+  });
+
+  it("are refused when malformed", () => {
+    expect(verifyVisitorToken("")).toBeNull();
+    expect(verifyVisitorToken(VISITOR_ID)).toBeNull();
+    expect(verifyVisitorToken(`.${signVisitorToken(VISITOR_ID).split(".")[1]}`)).toBeNull();
+  });
+});
+
+describe("visitorIdFromCookies", () => {
+  it("reads the visitor cookie among others", () => {
+    const token = encodeURIComponent(signVisitorToken(VISITOR_ID));
+
+    expect(visitorIdFromCookies(`theme=dark; ${VISITOR_COOKIE}=${token}; lang=en`)).toBe(
+      VISITOR_ID
+    );
+  });
+
+  it("returns null without a valid visitor cookie", () => {
+    expect(visitorIdFromCookies(undefined)).toBeNull();
+    expect(visitorIdFromCookies("theme=dark")).toBeNull();
+    expect(visitorIdFromCookies(`${VISITOR_COOKIE}=${VISITOR_ID}.forged`)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { env } from "../config/env.js";
+
+export const VISITOR_COOKIE = "mr_visitor";
+
+// Carries the token for the embedded widget, which can't use the cookie
+export const VISITOR_TOKEN_HEADER = "x-visitor-token";
+
+// Visitors can come back to their chats for a year
+export const VISITOR_TOKEN_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+function sign(visitorId: string) {
+  return createHmac("sha256", env.VISITOR_TOKEN_SECRET).update(visitorId).digest("base64url");
+}
+
+/**
+ * The token that proves a visitor id: "<visitorId>.<signature>".
+ */
+export function signVisitorToken(visitorId: string) {
+  return `${visitorId}.${sign(visitorId)}`;
+}
+
+/**
+ * The visitor id in a token, or null if the token wasn't signed by us.
+ */
+export function verifyVisitorToken(token: string): string | null {
+  const [visitorId, signature] = token.split(".");
+  if (!visitorId || !signature) return null;
+
+  const expected = Buffer.from(sign(visitorId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return visitorId;
+}
+
+/**
+ * The visitor id from a raw Cookie header, for requests Express doesn't
+ * handle (WebSocket upgrades) as well as ones it does.
+ */
+export function visitorIdFromCookies(cookieHeader: string | undefined): string | null {
+  if (!cookieHeader) return null;
+
+  for (const cookie of cookieHeader.split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === VISITOR_COOKIE) {
+      return verifyVisitorToken(decodeURIComponent(value.join("=")));
+    }
+  }
+  return null;
+}
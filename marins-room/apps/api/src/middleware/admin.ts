@@ -104,15 +104,9 @@ import { env } from "../config/env.js";
  * router.get("/donations", getDonations);
  */
 export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  // STEP 1: Extract the API key from request headers
-  // Header name is "x-admin-api-key" (x- prefix is common for custom headers)
-  const apiKey = req.headers["x-admin-api-key"];
-
-  // STEP 2: Validate the key
-  // Two checks:
-  //   - !apiKey: Header is missing or empty
-  //   - apiKey !== env.ADMIN_API_KEY: Key doesn't match
-  if (!apiKey || apiKey !== env.ADMIN_API_KEY) {
+  // STEPS 1-2: Extract the API key from the headers and validate it
+  // (see isAdminRequest below)
+  if (!isAdminRequest(req)) {
     // STEP 3a: Invalid - return 401 Unauthorized
     // 401 means "you need to authenticate"
     // (vs 403 Forbidden which means "authenticated but not allowed")
@@ -128,3 +122,28 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
   // STEP 3b: Valid - continue to the next middleware or route handler
   next();
 }
+
+/**
+ * isAdminRequest - Same key check as requireAdmin, without rejecting
+ *
+ * PSEUDOCODE:
+ * -----------
+ * INPUT: Express request
+ *
+ * STEPS:
+ *   1. Get "x-admin-api-key" from request headers
+ *   2. Return true only if it is present AND matches ADMIN_API_KEY
+ *
+ * For routes open to both admins and visitors (e.g. reading a chat
+ * session): admins see everything, visitors only their own data.
+ * Don't just check that the header exists - anyone can send one!
+ */
+export function isAdminRequest(req: Request): boolean {
+  // Header name is "x-admin-api-key" (x- prefix is common for custom headers)
+  const apiKey = req.headers["x-admin-api-key"];
+
+  // Two checks:
+  //   - !apiKey: Header is missing or empty
+  //   - apiKey !== env.ADMIN_API_KEY: Key doesn't match
+  return !!apiKey && apiKey === env.ADMIN_API_KEY;
+}
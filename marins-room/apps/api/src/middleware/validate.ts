@@ -63,7 +63,7 @@
  */
 
 import type { Request, Response, NextFunction } from "express";
-import type { ZodSchema } from "zod";
+import type { ZodType, ZodTypeDef } from "zod";
 
 /**
  * validateBody - Factory for request body validation middleware
@@ -115,7 +115,7 @@ import type { ZodSchema } from "zod";
  *   }
  * }
  */
-export function validateBody<T>(schema: ZodSchema<T>) {
+export function validateBody<T>(schema: ZodType<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     // Attempt to parse the request body against the schema
     const result = schema.safeParse(req.body);
@@ -172,7 +172,7 @@ export function validateBody<T>(schema: ZodSchema<T>) {
  *   GET /donations?page=2&limit=10
  *   → req.query = { page: 2, limit: 10 }
  */
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: ZodType<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     const result = schema.safeParse(req.query);
 
@@ -228,7 +228,7 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
  *   GET /donations/a1b2c3d4-e5f6-7890-abcd-ef1234567890
  *   → continues to route handler
  */
-export function validateParams<T>(schema: ZodSchema<T>) {
+export function validateParams<T>(schema: ZodType<T, ZodTypeDef, unknown>) {
   return (req: Request, res: Response, next: NextFunction) => {
     const result = schema.safeParse(req.params);
 
@@ -0,0 +1,110 @@
+/**
+ * ============================================================================
+ * VISITOR IDENTITY
+ * ============================================================================
+ *
+ * WHAT THIS FILE DOES:
+ * --------------------
+ * Works out which visitor is making a chat request, so visitors only ever
+ * see their own chat sessions.
+ *
+ * HOW IT WORKS:
+ * -------------
+ *   1. Starting a chat issues a signed, httpOnly "visitor token" cookie
+ *      (see lib/visitorToken.ts). Its visitor id is stored on the session.
+ *   2. Later requests (and WebSocket joins) send the cookie back.
+ *   3. A session belongs to the request if the ids match.
+ *
+ * EMBEDDED WIDGET:
+ *   On other sites (EMBED_ORIGINS) browsers treat our cookie as third-party
+ *   and don't send it. There, starting a chat also returns the token, and
+ *   the widget sends it back in the X-Visitor-Token header (or in the
+ *   WebSocket join message).
+ *
+ * WHY NOT THE IP ADDRESS?
+ *   - Visitors behind the same NAT (office, school, mobile carrier) share
+ *     an IP and could read each other's chats
+ *   - Phones change IP all the time and would lose their chats
+ *
+ * httpOnly means page scripts can't read the token, so an XSS bug can't
+ * steal it. The web app sends it with `credentials: "include"`.
+ *
+ * CROSS-SITE API:
+ *   In production the web app and API usually live on different sites
+ *   (Vercel and Railway), so the cookie is SameSite=None; Secure - with
+ *   "lax" browsers would drop it from fetches and the WebSocket upgrade.
+ *   In development both are on localhost, which counts as one site, and
+ *   SameSite=None would need HTTPS.
+ */
+
+import type { ChatSession } from "@prisma/client";
+import type { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+
+import { env } from "../config/env.js";
+import { isEmbedOrigin } from "../lib/origins.js";
+import {
+  signVisitorToken,
+  VISITOR_COOKIE,
+  VISITOR_TOKEN_HEADER,
+  VISITOR_TOKEN_MAX_AGE_MS,
+  verifyVisitorToken,
+  visitorIdFromCookies,
+} from "../lib/visitorToken.js";
+
+/**
+ * getVisitorId - The visitor id from the request's visitor token
+ *
+ * The cookie wins; the header is for the embedded widget. Returns null if
+ * there is no token or it has been tampered with.
+ */
+export function getVisitorId(req: Request): string | null {
+  const header = req.get(VISITOR_TOKEN_HEADER);
+  return visitorIdFromCookies(req.headers.cookie) ?? (header ? verifyVisitorToken(header) : null);
+}
+
+/**
+ * issueVisitorToken - Make sure the visitor has a token
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   1. Reuse the visitor id from a valid token, so all of a visitor's
+ *      chats stay together
+ *   2. Otherwise create a new visitor id and token
+ *   3. (Re)set the cookie, which also pushes back its expiry
+ *   4. Return the visitor id
+ */
+export function issueVisitorToken(req: Request, res: Response): string {
+  // STEPS 1-2: Reuse or create the visitor id
+  const visitorId = getVisitorId(req) ?? uuidv4();
+
+  // STEP 3: Set the signed cookie
+  res.cookie(VISITOR_COOKIE, signVisitorToken(visitorId), {
+    httpOnly: true,
+    secure: env.NODE_ENV === "production",
+    sameSite: env.NODE_ENV === "production" ? "none" : "lax",
+    path: "/",
+    maxAge: VISITOR_TOKEN_MAX_AGE_MS,
+  });
+
+  // STEP 4
+  return visitorId;
+}
+
+/**
+ * embedVisitorToken - The visitor token to hand to the embedded widget
+ *
+ * Only requests from EMBED_ORIGINS get it; our own web app keeps the
+ * token in the httpOnly cookie, out of reach of page scripts.
+ */
+export function embedVisitorToken(req: Request, visitorId: string): string | undefined {
+  return isEmbedOrigin(req.get("origin")) ? signVisitorToken(visitorId) : undefined;
+}
+
+/**
+ * ownsSession - Whether the session was started by this request's visitor
+ */
+export function ownsSession(req: Request, session: ChatSession): boolean {
+  const visitorId = getVisitorId(req);
+  return !!visitorId && session.visitorId === visitorId;
+}
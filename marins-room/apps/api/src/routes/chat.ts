@@ -1,19 +1,65 @@
+import type {
+  FeedbackReportQueryInput,
+  SearchSessionsQueryInput,
+  TranscriptFormat,
+  UsageReportQueryInput,
+} from "@marins-room/shared";
 import {
+  ADMIN_LANGUAGE,
+  CloseSessionSchema,
+  CreateAttachmentSchema,
+  CreateSessionNoteSchema,
+  ExportTranscriptQuerySchema,
+  FeedbackReportQuerySchema,
   PaginationSchema,
+  RateMessageSchema,
+  SearchSessionsQuerySchema,
   SendMessageSchema,
   SessionIdSchema,
+  SetSessionModeSchema,
   StartChatSessionSchema,
+  UpdateChatSessionSchema,
+  UsageReportQuerySchema,
 } from "@marins-room/shared";
 import { Router, type IRouter } from "express";
-import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 
-import { getAIResponse } from "../lib/ai.js";
+import { generateAssistantReply } from "../lib/assistant.js";
+import { canAttach, createAttachmentUpload } from "../lib/attachments.js";
+import { saveSentMessage } from "../lib/chatMessages.js";
+import { getFeedbackReport } from "../lib/feedback.js";
+import { requestHuman, setSessionMode, shouldAIReply } from "../lib/handoff.js";
+import { listVisitorSessions } from "../lib/inbox.js";
 import { logger } from "../lib/logger.js";
+import { moderateMessage } from "../lib/moderation.js";
 import { prisma } from "../lib/prisma.js";
-import { requireAdmin } from "../middleware/admin.js";
+import { pickPromptVersion } from "../lib/prompts.js";
+import { closeSession } from "../lib/sessionClose.js";
+import { searchSessions } from "../lib/sessionSearch.js";
+import { renderTranscript } from "../lib/transcript.js";
+import { prepareAdminReply, translateForAdmin } from "../lib/translation.js";
+import {
+  listTags,
+  toVisitorMessage,
+  toVisitorSession,
+  updateSessionTriage,
+} from "../lib/triage.js";
+import { getUsageReport } from "../lib/usage.js";
+import { isAdminRequest, requireAdmin } from "../middleware/admin.js";
 import { rateLimit } from "../middleware/rateLimit.js";
 import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
+import {
+  embedVisitorToken,
+  getVisitorId,
+  issueVisitorToken,
+  ownsSession,
+} from "../middleware/visitor.js";
+import {
+  broadcastHandoff,
+  broadcastSessionClosed,
+  broadcastToSession,
+  notifyInbox,
+} from "../websocket/index.js";
 
 export const chatRouter: IRouter = Router();
 
@@ -32,13 +78,16 @@ chatRouter.post(
   async (req, res) => {
     try {
       const { visitorName } = req.body;
-      const visitorId = req.ip || uuidv4();
+      // Ties the session to this browser (a returning visitor keeps their id)
+      const visitorId = issueVisitorToken(req, res);
 
       const session = await prisma.chatSession.create({
         data: {
           visitorId,
           visitorName,
           status: "ACTIVE",
+          // Kept for the whole session, even if Marin activates another
+          promptVersionId: await pickPromptVersion(),
         },
       });
 
@@ -52,13 +101,16 @@ chatRouter.post(
         },
       });
 
+      notifyInbox("INBOX_SESSION_CREATED", session.id);
+
       logger.info(`Chat session started: ${session.id}`);
 
       res.json({
         success: true,
         data: {
           sessionId: session.id,
-          session,
+          session: toVisitorSession(session),
+          visitorToken: embedVisitorToken(req, visitorId),
         },
       });
     } catch (error) {
@@ -88,7 +140,7 @@ chatRouter.post(
   validateBody(SendMessageSchema),
   async (req, res) => {
     try {
-      const { sessionId, content } = req.body;
+      const { sessionId, content, clientMessageId, attachmentIds } = req.body;
 
       // Verify session exists and is active
       const session = await prisma.chatSession.findUnique({
@@ -105,6 +157,16 @@ chatRouter.post(
         });
       }
 
+      if (!ownsSession(req, session)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only send messages in your own chat sessions",
+          },
+        });
+      }
+
       if (session.status !== "ACTIVE") {
         return res.status(400).json({
           success: false,
@@ -115,41 +177,70 @@ chatRouter.post(
         });
       }
 
-      // Save user message
-      const userMessage = await prisma.chatMessage.create({
-        data: {
-          sessionId,
-          role: "USER",
-          content,
-        },
-      });
+      if (attachmentIds?.length && !(await canAttach(sessionId, attachmentIds, clientMessageId))) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: "INVALID_ATTACHMENT",
+            message: "Attachment not found or already sent",
+          },
+        });
+      }
 
-      // Get conversation history for AI context
-      const history = await prisma.chatMessage.findMany({
-        where: { sessionId },
-        orderBy: { createdAt: "asc" },
-        take: 20, // Last 20 messages for context
-      });
-
-      // Get AI response
-      const aiResult = await getAIResponse(
-        history.map((m) => ({
-          role: m.role.toLowerCase() as "user" | "assistant" | "system",
-          content: m.content,
-        }))
-      );
-
-      let aiMessage = null;
-      if (aiResult.content) {
-        aiMessage = await prisma.chatMessage.create({
-          data: {
-            sessionId,
-            role: "ASSISTANT",
-            content: aiResult.content,
+      // Moderate before saving or sending anything to the AI
+      const moderation = moderateMessage(content);
+      if (moderation.blocked) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: "MESSAGE_BLOCKED",
+            message: moderation.blocked,
           },
         });
       }
 
+      // Save user message (a retried send returns the saved copy)
+      const { message: userMessage, duplicate } = await saveSentMessage({
+        sessionId,
+        role: "USER",
+        content: moderation.content,
+        clientMessageId,
+        aiContent: moderation.aiContent,
+        flags: moderation.flags,
+        attachmentIds,
+      });
+
+      if (duplicate) {
+        return res.json({
+          success: true,
+          data: { message: toVisitorMessage(userMessage) },
+        });
+      }
+
+      broadcastToSession(sessionId, {
+        type: "MESSAGE_RECEIVED",
+        payload: { message: userMessage },
+      });
+
+      // Get AI response (grounded on blog posts and videos, with citations),
+      // unless Marin has taken over the conversation
+      const reply = (await shouldAIReply(session))
+        ? await generateAssistantReply(sessionId, userMessage)
+        : null;
+      const aiMessage = reply?.message ?? null;
+
+      // The AI couldn't answer and the session was flagged for follow-up
+      if (reply?.fallback) {
+        notifyInbox("INBOX_SESSION_UPDATED", sessionId);
+      }
+
+      if (aiMessage) {
+        broadcastToSession(sessionId, {
+          type: "AI_RESPONSE",
+          payload: { message: aiMessage },
+        });
+      }
+
       // Update session timestamp
       await prisma.chatSession.update({
         where: { id: sessionId },
@@ -159,8 +250,8 @@ chatRouter.post(
       res.json({
         success: true,
         data: {
-          message: userMessage,
-          aiResponse: aiMessage,
+          message: toVisitorMessage(userMessage),
+          aiResponse: aiMessage && toVisitorMessage(aiMessage),
         },
       });
     } catch (error) {
@@ -177,42 +268,346 @@ chatRouter.post(
 );
 
 /**
- * List chat sessions (admin only)
- * GET /chat/sessions
+ * Rate an AI reply thumbs up or down, with an optional comment. Rating
+ * it again replaces the earlier rating.
+ * PUT /chat/messages/:messageId/feedback
+ */
+chatRouter.put(
+  "/messages/:messageId/feedback",
+  rateLimit({
+    limit: 30,
+    windowSeconds: 60,
+    keyPrefix: "chat-feedback",
+  }),
+  validateParams(z.object({ messageId: z.string().uuid() })),
+  validateBody(RateMessageSchema),
+  async (req, res) => {
+    try {
+      const { rating, comment } = req.body;
+
+      const message = await prisma.chatMessage.findUnique({
+        where: { id: req.params.messageId },
+        include: { session: true },
+      });
+
+      if (!message) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "MESSAGE_NOT_FOUND",
+            message: "Message not found",
+          },
+        });
+      }
+
+      if (!ownsSession(req, message.session)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only rate replies in your own chat sessions",
+          },
+        });
+      }
+
+      if (message.role !== "ASSISTANT") {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: "NOT_RATEABLE",
+            message: "Only AI replies can be rated",
+          },
+        });
+      }
+
+      const feedback = await prisma.chatFeedback.upsert({
+        where: { messageId: message.id },
+        create: { messageId: message.id, sessionId: message.sessionId, rating, comment },
+        update: { rating, comment: comment ?? null },
+      });
+
+      res.json({
+        success: true,
+        data: feedback,
+      });
+    } catch (error) {
+      logger.error("Failed to save message feedback:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "FEEDBACK_FAILED",
+          message: "Failed to save rating",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Take back a rating
+ * DELETE /chat/messages/:messageId/feedback
+ */
+chatRouter.delete(
+  "/messages/:messageId/feedback",
+  validateParams(z.object({ messageId: z.string().uuid() })),
+  async (req, res) => {
+    try {
+      const feedback = await prisma.chatFeedback.findUnique({
+        where: { messageId: req.params.messageId },
+        include: { session: true },
+      });
+
+      if (!feedback || !ownsSession(req, feedback.session)) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "FEEDBACK_NOT_FOUND",
+            message: "Rating not found",
+          },
+        });
+      }
+
+      await prisma.chatFeedback.delete({
+        where: { id: feedback.id },
+      });
+
+      res.json({
+        success: true,
+        data: null,
+      });
+    } catch (error) {
+      logger.error("Failed to delete message feedback:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "FEEDBACK_FAILED",
+          message: "Failed to delete rating",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Translate a message into ADMIN_LANGUAGE for Marin (admin only)
+ * POST /chat/messages/:messageId/translate
+ */
+chatRouter.post(
+  "/messages/:messageId/translate",
+  requireAdmin,
+  validateParams(z.object({ messageId: z.string().uuid() })),
+  async (req, res) => {
+    try {
+      const message = await prisma.chatMessage.findUnique({
+        where: { id: req.params.messageId },
+      });
+
+      if (!message) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "MESSAGE_NOT_FOUND",
+            message: "Message not found",
+          },
+        });
+      }
+
+      const translation = await translateForAdmin(message);
+      if (translation === null) {
+        return res.status(503).json({
+          success: false,
+          error: {
+            code: "TRANSLATION_FAILED",
+            message: "The message couldn't be translated",
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          messageId: message.id,
+          language: message.language,
+          targetLanguage: ADMIN_LANGUAGE,
+          translation,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to translate message:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "TRANSLATION_FAILED",
+          message: "Failed to translate message",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * List and search chat sessions (admin only)
+ * GET /chat/sessions?q=...&status=...&from=...&to=...&visitorName=...&hasAdminReply=...
  */
 chatRouter.get(
   "/sessions",
   requireAdmin,
-  validateQuery(PaginationSchema),
+  validateQuery(SearchSessionsQuerySchema),
   async (req, res) => {
+    try {
+      const filters = req.query as unknown as SearchSessionsQueryInput;
+
+      const { sessions, total } = await searchSessions(filters);
+
+      res.json({
+        success: true,
+        data: {
+          sessions,
+          total,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to search chat sessions:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SESSION_SEARCH_FAILED",
+          message: "Failed to search chat sessions",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * List the visitor's own chat sessions, most recent first, so they can
+ * pick one up again
+ * GET /chat/sessions/mine
+ */
+chatRouter.get("/sessions/mine", async (req, res) => {
+  try {
+    const visitorId = getVisitorId(req);
+
+    const sessions = visitorId ? await listVisitorSessions(visitorId) : [];
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    logger.error("Failed to list visitor sessions:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SESSIONS_FETCH_FAILED",
+        message: "Failed to fetch your chat sessions",
+      },
+    });
+  }
+});
+
+/**
+ * List prompt guard incidents, newest first (admin only)
+ * GET /chat/incidents
+ */
+chatRouter.get("/incidents", requireAdmin, validateQuery(PaginationSchema), async (req, res) => {
+  try {
     const { page, pageSize } = req.query as unknown as { page: number; pageSize: number };
     const skip = (page - 1) * pageSize;
 
-    const [sessions, total] = await Promise.all([
-      prisma.chatSession.findMany({
+    const [incidents, total] = await Promise.all([
+      prisma.chatIncident.findMany({
         skip,
         take: pageSize,
-        orderBy: { updatedAt: "desc" },
-        include: {
-          _count: {
-            select: { messages: true },
-          },
-        },
+        orderBy: { createdAt: "desc" },
       }),
-      prisma.chatSession.count(),
+      prisma.chatIncident.count(),
     ]);
 
     res.json({
       success: true,
       data: {
-        sessions: sessions.map((s) => ({
-          ...s,
-          messageCount: s._count.messages,
-        })),
+        items: incidents,
         total,
+        page,
+        pageSize,
+        hasMore: skip + incidents.length < total,
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to list prompt guard incidents:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INCIDENTS_FETCH_FAILED",
+        message: "Failed to fetch incidents",
       },
     });
   }
+});
+
+/**
+ * Satisfaction with the AI's replies over time, per model, and the worst
+ * rated conversations (admin only)
+ * GET /chat/feedback/report?from=...&to=...&interval=day|week
+ */
+chatRouter.get(
+  "/feedback/report",
+  requireAdmin,
+  validateQuery(FeedbackReportQuerySchema),
+  async (req, res) => {
+    try {
+      const filters = req.query as unknown as FeedbackReportQueryInput;
+
+      const report = await getFeedbackReport(filters);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      logger.error("Failed to build feedback report:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "REPORT_FAILED",
+          message: "Failed to build feedback report",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * AI token usage over time, per model, and the most expensive
+ * conversations, with the configured caps (admin only)
+ * GET /chat/usage/report?from=...&to=...&interval=day|week
+ */
+chatRouter.get(
+  "/usage/report",
+  requireAdmin,
+  validateQuery(UsageReportQuerySchema),
+  async (req, res) => {
+    try {
+      const filters = req.query as unknown as UsageReportQueryInput;
+
+      const report = await getUsageReport(filters);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      logger.error("Failed to build usage report:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "REPORT_FAILED",
+          message: "Failed to build usage report",
+        },
+      });
+    }
+  }
 );
 
 /**
@@ -223,7 +618,7 @@ chatRouter.get(
   "/sessions/:sessionId/messages",
   validateParams(z.object({ sessionId: SessionIdSchema })),
   async (req, res) => {
-    const isAdmin = req.headers["x-admin-api-key"] !== undefined;
+    const isAdmin = isAdminRequest(req);
     const { sessionId } = req.params;
 
     const session = await prisma.chatSession.findUnique({
@@ -241,8 +636,7 @@ chatRouter.get(
     }
 
     // Only admin can view other visitors' sessions
-    const visitorId = req.ip || "";
-    if (!isAdmin && session.visitorId !== visitorId) {
+    if (!isAdmin && !ownsSession(req, session)) {
       return res.status(403).json({
         success: false,
         error: {
@@ -255,69 +649,166 @@ chatRouter.get(
     const messages = await prisma.chatMessage.findMany({
       where: { sessionId },
       orderBy: { createdAt: "asc" },
+      include: { toolCalls: true, attachments: true, feedback: true },
     });
 
     res.json({
       success: true,
       data: {
-        session,
-        messages,
+        session: isAdmin ? session : toVisitorSession(session),
+        messages: isAdmin ? messages : messages.map(toVisitorMessage),
       },
     });
   }
 );
 
 /**
- * Close a chat session (admin only)
- * POST /chat/sessions/:sessionId/close
+ * Download a session's transcript as Markdown, JSON or HTML
+ * GET /chat/sessions/:sessionId/export?format=markdown
  */
-chatRouter.post(
-  "/sessions/:sessionId/close",
-  requireAdmin,
+chatRouter.get(
+  "/sessions/:sessionId/export",
   validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateQuery(ExportTranscriptQuerySchema),
   async (req, res) => {
-    const { sessionId } = req.params;
-
-    const session = await prisma.chatSession.findUnique({
-      where: { id: sessionId },
-    });
+    try {
+      const isAdmin = isAdminRequest(req);
+      const { sessionId } = req.params;
+      const { format } = req.query as unknown as { format: TranscriptFormat };
 
-    if (!session) {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: "SESSION_NOT_FOUND",
-          message: "Chat session not found",
-        },
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
       });
-    }
 
-    await prisma.chatSession.update({
-      where: { id: sessionId },
-      data: { status: "CLOSED" },
-    });
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
 
-    logger.info(`Chat session ${sessionId} closed`);
+      // Same rule as reading messages: visitors only get their own sessions
+      if (!isAdmin && !ownsSession(req, session)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only view your own chat sessions",
+          },
+        });
+      }
 
-    res.json({
-      success: true,
-      data: null,
+      const messages = await prisma.chatMessage.findMany({
+        where: { sessionId },
+        orderBy: { createdAt: "asc" },
+        include: { toolCalls: isAdmin, attachments: true, feedback: isAdmin },
+      });
+
+      const transcript = renderTranscript(session, messages, format, { internal: isAdmin });
+
+      res.type(transcript.contentType).attachment(transcript.filename).send(transcript.body);
+    } catch (error) {
+      logger.error("Failed to export transcript:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "EXPORT_FAILED",
+          message: "Failed to export transcript",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Start uploading an attachment (visitor, own active session). Returns a
+ * presigned URL to PUT the file to; the attachment is sent by including
+ * its id in a message's attachmentIds.
+ * POST /chat/sessions/:sessionId/attachments
+ */
+chatRouter.post(
+  "/sessions/:sessionId/attachments",
+  rateLimit({
+    limit: 10,
+    windowSeconds: 600,
+    keyPrefix: "chat-attachment",
+  }),
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateBody(CreateAttachmentSchema),
+  async (req, res) => {
+    const { sessionId } = req.params;
+
+    const session = await prisma.chatSession.findUnique({
+      where: { id: sessionId },
     });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "SESSION_NOT_FOUND",
+          message: "Chat session not found",
+        },
+      });
+    }
+
+    if (!ownsSession(req, session)) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You can only add attachments to your own chat sessions",
+        },
+      });
+    }
+
+    if (session.status !== "ACTIVE") {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "SESSION_CLOSED",
+          message: "This chat session has been closed",
+        },
+      });
+    }
+
+    try {
+      const upload = await createAttachmentUpload(session.id, req.body);
+
+      logger.info(`Attachment upload URL generated for session ${session.id}`);
+
+      res.json({
+        success: true,
+        data: upload,
+      });
+    } catch (error) {
+      logger.error("Failed to generate attachment upload URL:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "UPLOAD_URL_FAILED",
+          message: "Failed to generate upload URL",
+        },
+      });
+    }
   }
 );
 
 /**
- * Admin reply to a session
- * POST /chat/sessions/:sessionId/reply
+ * Close a chat session (admin only; also used by the worker's idle session job)
+ * POST /chat/sessions/:sessionId/close
  */
 chatRouter.post(
-  "/sessions/:sessionId/reply",
+  "/sessions/:sessionId/close",
   requireAdmin,
   validateParams(z.object({ sessionId: SessionIdSchema })),
-  validateBody(z.object({ content: z.string().min(1).max(4000) })),
+  validateBody(CloseSessionSchema),
   async (req, res) => {
     const { sessionId } = req.params;
-    const { content } = req.body;
+    const { reason } = req.body;
 
     const session = await prisma.chatSession.findUnique({
       where: { id: sessionId },
@@ -333,26 +824,434 @@ chatRouter.post(
       });
     }
 
-    // Admin messages are marked as ASSISTANT for simplicity
-    // In production, you might want a separate ADMIN role
-    const message = await prisma.chatMessage.create({
-      data: {
-        sessionId: sessionId!,
-        role: "ASSISTANT",
-        content: `[Marin]: ${content}`,
-      },
-    });
+    const closure = await closeSession(sessionId!, reason);
 
-    await prisma.chatSession.update({
-      where: { id: sessionId },
-      data: { updatedAt: new Date() },
+    // Already closed: nothing to tell anyone
+    if (closure) {
+      broadcastSessionClosed(closure, reason);
+      notifyInbox("INBOX_SESSION_CLOSED", sessionId!);
+
+      logger.info(`Chat session ${sessionId} closed (${reason})`);
+    }
+
+    res.json({
+      success: true,
+      data: null,
     });
+  }
+);
 
-    logger.info(`Admin replied to session ${sessionId}`);
+/**
+ * Admin reply to a session
+ * POST /chat/sessions/:sessionId/reply
+ */
+chatRouter.post(
+  "/sessions/:sessionId/reply",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateBody(
+    z.object({
+      content: z.string().min(1).max(4000),
+      clientMessageId: z.string().uuid().optional(),
+      translate: z.boolean().optional(),
+    })
+  ),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { content, clientMessageId, translate } = req.body;
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+      });
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      if (session.status !== "ACTIVE") {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: "SESSION_CLOSED",
+            message: "This chat session has been closed",
+          },
+        });
+      }
+
+      // Optionally in the visitor's language
+      const reply = await prepareAdminReply(session, content, translate);
+      if (!reply) {
+        return res.status(503).json({
+          success: false,
+          error: {
+            code: "TRANSLATION_FAILED",
+            message: "The reply couldn't be translated, so it wasn't sent",
+          },
+        });
+      }
+
+      // Saved like replies sent over the WebSocket (a retried send returns
+      // the saved copy)
+      const { message, duplicate } = await saveSentMessage({
+        sessionId: sessionId!,
+        role: "ADMIN",
+        ...reply,
+        clientMessageId,
+      });
+
+      if (!duplicate) {
+        broadcastToSession(sessionId!, {
+          type: "MESSAGE_RECEIVED",
+          payload: { message },
+        });
+
+        await prisma.chatSession.update({
+          where: { id: sessionId },
+          data: { updatedAt: new Date() },
+        });
+
+        logger.info(`Admin replied to session ${sessionId}`);
+      }
+
+      res.json({
+        success: true,
+        data: { message },
+      });
+    } catch (error) {
+      logger.error("Failed to send admin reply:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "MESSAGE_SEND_FAILED",
+          message: "Failed to send message",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Take over a session or hand it back to the AI (admin only)
+ * POST /chat/sessions/:sessionId/mode
+ */
+chatRouter.post(
+  "/sessions/:sessionId/mode",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateBody(SetSessionModeSchema),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { mode } = req.body;
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+      });
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      const change = await setSessionMode(session.id, mode);
+      broadcastHandoff(change);
+
+      logger.info(`Session ${sessionId} switched to ${mode} mode`);
+
+      res.json({
+        success: true,
+        data: change.session,
+      });
+    } catch (error) {
+      logger.error("Failed to change session mode:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SESSION_MODE_FAILED",
+          message: "Failed to change session mode",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Update a session's tags and/or priority (admin only)
+ * PATCH /chat/sessions/:sessionId
+ */
+chatRouter.patch(
+  "/sessions/:sessionId",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateBody(UpdateChatSessionSchema),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await updateSessionTriage(sessionId!, req.body);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      notifyInbox("INBOX_SESSION_UPDATED", session.id);
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      logger.error("Failed to update session triage:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SESSION_UPDATE_FAILED",
+          message: "Failed to update chat session",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * List the tags in use, most used first (admin only)
+ * GET /chat/tags
+ */
+chatRouter.get("/tags", requireAdmin, async (_req, res) => {
+  try {
+    const tags = await listTags();
 
     res.json({
       success: true,
-      data: { message },
+      data: tags,
     });
+  } catch (error) {
+    logger.error("Failed to list tags:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "TAGS_FETCH_FAILED",
+        message: "Failed to fetch tags",
+      },
+    });
+  }
+});
+
+/**
+ * List a session's private notes, oldest first (admin only)
+ * GET /chat/sessions/:sessionId/notes
+ */
+chatRouter.get(
+  "/sessions/:sessionId/notes",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+
+      const notes = await prisma.chatSessionNote.findMany({
+        where: { sessionId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      res.json({
+        success: true,
+        data: notes,
+      });
+    } catch (error) {
+      logger.error("Failed to list session notes:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "NOTES_FETCH_FAILED",
+          message: "Failed to fetch notes",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Add a private note to a session (admin only)
+ * POST /chat/sessions/:sessionId/notes
+ */
+chatRouter.post(
+  "/sessions/:sessionId/notes",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  validateBody(CreateSessionNoteSchema),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { content } = req.body;
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        select: { id: true },
+      });
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      const note = await prisma.chatSessionNote.create({
+        data: { sessionId: sessionId!, content },
+      });
+
+      res.json({
+        success: true,
+        data: note,
+      });
+    } catch (error) {
+      logger.error("Failed to add session note:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "NOTE_SAVE_FAILED",
+          message: "Failed to save note",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Delete a private note (admin only)
+ * DELETE /chat/sessions/:sessionId/notes/:noteId
+ */
+chatRouter.delete(
+  "/sessions/:sessionId/notes/:noteId",
+  requireAdmin,
+  validateParams(z.object({ sessionId: SessionIdSchema, noteId: z.string().uuid() })),
+  async (req, res) => {
+    try {
+      const { sessionId, noteId } = req.params;
+
+      const { count } = await prisma.chatSessionNote.deleteMany({
+        where: { id: noteId, sessionId },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "NOTE_NOT_FOUND",
+            message: "Note not found",
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: null,
+      });
+    } catch (error) {
+      logger.error("Failed to delete session note:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "NOTE_DELETE_FAILED",
+          message: "Failed to delete note",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Ask for Marin to join the conversation (visitor)
+ * POST /chat/sessions/:sessionId/request-human
+ */
+chatRouter.post(
+  "/sessions/:sessionId/request-human",
+  rateLimit({
+    limit: 5,
+    windowSeconds: 60,
+    keyPrefix: "chat-request-human",
+  }),
+  validateParams(z.object({ sessionId: SessionIdSchema })),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+      });
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      // Only the visitor who started the session can ask for Marin
+      if (!ownsSession(req, session)) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only update your own chat sessions",
+          },
+        });
+      }
+
+      if (session.status !== "ACTIVE") {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: "SESSION_CLOSED",
+            message: "This chat session has been closed",
+          },
+        });
+      }
+
+      const change = await requestHuman(session);
+      if (change) {
+        broadcastHandoff(change);
+        logger.info(`Visitor requested Marin in session ${sessionId}`);
+      }
+
+      res.json({
+        success: true,
+        data: toVisitorSession(change?.session ?? session),
+      });
+    } catch (error) {
+      logger.error("Failed to request Marin:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "REQUEST_HUMAN_FAILED",
+          message: "Failed to ask for Marin",
+        },
+      });
+    }
   }
 );
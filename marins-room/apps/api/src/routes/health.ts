@@ -1,5 +1,6 @@
 import { Router, type IRouter } from "express";
 
+import { getAIBreakerStatus } from "../lib/ai.js";
 import { prisma } from "../lib/prisma.js";
 import { redis } from "../lib/redis.js";
 
@@ -27,12 +28,17 @@ healthRouter.get("/", async (_req, res) => {
 
   const allHealthy = Object.values(checks).every(Boolean);
 
+  // An AI outage degrades chat but this instance can still serve, so it
+  // doesn't turn the check into a 503
+  const ai = getAIBreakerStatus();
+
   res.status(allHealthy ? 200 : 503).json({
     success: true,
     data: {
-      status: allHealthy ? "healthy" : "degraded",
+      status: allHealthy && ai.state === "CLOSED" ? "healthy" : "degraded",
       timestamp: new Date().toISOString(),
       checks,
+      ai,
     },
   });
 });
@@ -1,10 +1,8 @@
 import { CreateCheckoutSessionSchema } from "@marins-room/shared";
 import { Router, type IRouter } from "express";
 
-import { env } from "../config/env.js";
+import { createDonationCheckout } from "../lib/donations.js";
 import { logger } from "../lib/logger.js";
-import { prisma } from "../lib/prisma.js";
-import { stripe } from "../lib/stripe.js";
 import { rateLimit } from "../middleware/rateLimit.js";
 import { validateBody } from "../middleware/validate.js";
 
@@ -28,60 +26,13 @@ paymentsRouter.post(
   validateBody(CreateCheckoutSessionSchema),
   async (req, res) => {
     try {
-      const { amount, currency, name, email, message } = req.body;
-
-      // Create donation record in pending state
-      const donation = await prisma.donation.create({
-        data: {
-          amount,
-          currency,
-          name,
-          email,
-          message,
-          status: "PENDING",
-        },
-      });
-
-      // Create Stripe Checkout session
-      const session = await stripe.checkout.sessions.create({
-        mode: "payment",
-        payment_method_types: ["card"],
-        line_items: [
-          {
-            price_data: {
-              currency,
-              product_data: {
-                name: "Donation to Marin's Room",
-                description: message || "Thank you for your support!",
-              },
-              unit_amount: amount,
-            },
-            quantity: 1,
-          },
-        ],
-        customer_email: email,
-        metadata: {
-          donationId: donation.id,
-          donorName: name || "",
-          message: message || "",
-        },
-        success_url: `${env.WEB_ORIGIN}/donate/success?session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${env.WEB_ORIGIN}/donate?canceled=true`,
-      });
-
-      // Update donation with Stripe session ID
-      await prisma.donation.update({
-        where: { id: donation.id },
-        data: { stripeSessionId: session.id },
-      });
-
-      logger.info(`Checkout session created: ${session.id} for donation ${donation.id}`);
+      const checkout = await createDonationCheckout(req.body);
 
       res.json({
         success: true,
         data: {
-          sessionId: session.id,
-          url: session.url,
+          sessionId: checkout.sessionId,
+          url: checkout.url,
         },
       });
     } catch (error) {
@@ -0,0 +1,215 @@
+import type { SetActivePromptsInput } from "@marins-room/shared";
+import {
+  CreatePromptVersionSchema,
+  SetActivePromptsSchema,
+  UpdatePromptVersionSchema,
+} from "@marins-room/shared";
+import { Router, type IRouter } from "express";
+import { z } from "zod";
+
+import { logger } from "../lib/logger.js";
+import { prisma } from "../lib/prisma.js";
+import { listPromptVersions, setActivePromptVersions, toPromptVersion } from "../lib/prompts.js";
+import { requireAdmin } from "../middleware/admin.js";
+import { validateBody, validateParams } from "../middleware/validate.js";
+
+export const promptsRouter: IRouter = Router();
+
+// Only Marin may read or change the assistant's prompts
+promptsRouter.use(requireAdmin);
+
+/**
+ * List system prompt versions, newest first, and the built-in prompt
+ * GET /chat/prompts
+ */
+promptsRouter.get("/", async (_req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await listPromptVersions(),
+    });
+  } catch (error) {
+    logger.error("Failed to list prompt versions:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "PROMPTS_FETCH_FAILED",
+        message: "Failed to fetch prompt versions",
+      },
+    });
+  }
+});
+
+/**
+ * Save a new prompt version (inactive until activated)
+ * POST /chat/prompts
+ */
+promptsRouter.post("/", validateBody(CreatePromptVersionSchema), async (req, res) => {
+  try {
+    const { name, content } = req.body;
+
+    const version = await prisma.promptVersion.create({
+      data: { name, content },
+    });
+
+    logger.info(`Prompt version created: ${version.id} (${name})`);
+
+    res.json({
+      success: true,
+      data: toPromptVersion(version),
+    });
+  } catch (error) {
+    logger.error("Failed to create prompt version:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "PROMPT_SAVE_FAILED",
+        message: "Failed to save prompt version",
+      },
+    });
+  }
+});
+
+/**
+ * Choose which versions new sessions get, with their weights. Every other
+ * version is deactivated; an empty list goes back to the built-in prompt.
+ * PUT /chat/prompts/active
+ */
+promptsRouter.put("/active", validateBody(SetActivePromptsSchema), async (req, res) => {
+  try {
+    const { variants } = req.body as SetActivePromptsInput;
+
+    const updated = await setActivePromptVersions(
+      variants.map(({ promptVersionId, weight }) => ({ id: promptVersionId, weight }))
+    );
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Prompt version not found",
+        },
+      });
+    }
+
+    logger.info(
+      `Active prompt versions: ${
+        variants.map((v) => `${v.promptVersionId} (${v.weight})`).join(", ") || "built-in"
+      }`
+    );
+
+    res.json({
+      success: true,
+      data: await listPromptVersions(),
+    });
+  } catch (error) {
+    logger.error("Failed to set active prompt versions:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "PROMPT_SAVE_FAILED",
+        message: "Failed to activate prompt versions",
+      },
+    });
+  }
+});
+
+/**
+ * Rename a prompt version. The content can't change: save a new version.
+ * PATCH /chat/prompts/:id
+ */
+promptsRouter.patch(
+  "/:id",
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(UpdatePromptVersionSchema),
+  async (req, res) => {
+    try {
+      const { count } = await prisma.promptVersion.updateMany({
+        where: { id: req.params.id },
+        data: { name: req.body.name },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Prompt version not found",
+          },
+        });
+      }
+
+      const version = await prisma.promptVersion.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: { _count: { select: { sessions: true } } },
+      });
+
+      res.json({
+        success: true,
+        data: toPromptVersion(version),
+      });
+    } catch (error) {
+      logger.error("Failed to rename prompt version:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "PROMPT_SAVE_FAILED",
+          message: "Failed to rename prompt version",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Delete a prompt version nobody has used. Active or used versions are
+ * kept so every reply can be traced to its prompt.
+ * DELETE /chat/prompts/:id
+ */
+promptsRouter.delete(
+  "/:id",
+  validateParams(z.object({ id: z.string().uuid() })),
+  async (req, res) => {
+    try {
+      const { count } = await prisma.promptVersion.deleteMany({
+        where: {
+          id: req.params.id,
+          weight: 0,
+          sessions: { none: {} },
+          messages: { none: {} },
+        },
+      });
+
+      if (count === 0) {
+        const exists = await prisma.promptVersion.count({ where: { id: req.params.id } });
+        return res.status(exists ? 409 : 404).json({
+          success: false,
+          error: exists
+            ? {
+                code: "PROMPT_IN_USE",
+                message: "This version is active or has been used by a chat, so it is kept",
+              }
+            : {
+                code: "NOT_FOUND",
+                message: "Prompt version not found",
+              },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: null,
+      });
+    } catch (error) {
+      logger.error("Failed to delete prompt version:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "PROMPT_DELETE_FAILED",
+          message: "Failed to delete prompt version",
+        },
+      });
+    }
+  }
+);
@@ -0,0 +1,226 @@
+import {
+  CreateSavedReplySchema,
+  SessionIdSchema,
+  UpdateSavedReplySchema,
+} from "@marins-room/shared";
+import { Prisma } from "@prisma/client";
+import { Router, type IRouter, type Response } from "express";
+import { z } from "zod";
+
+import { logger } from "../lib/logger.js";
+import { prisma } from "../lib/prisma.js";
+import { fillPlaceholders, findUnknownPlaceholders } from "../lib/savedReplies.js";
+import { requireAdmin } from "../middleware/admin.js";
+import { validateBody, validateParams, validateQuery } from "../middleware/validate.js";
+
+export const savedRepliesRouter: IRouter = Router();
+
+// Everything here is Marin's
+savedRepliesRouter.use(requireAdmin);
+
+function isShortcutTaken(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function sendShortcutTaken(res: Response, shortcut: string | undefined) {
+  return res.status(409).json({
+    success: false,
+    error: {
+      code: "SHORTCUT_TAKEN",
+      message: `Another saved reply already uses /${shortcut}`,
+    },
+  });
+}
+
+function sendUnknownPlaceholders(res: Response, unknown: string[]) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "UNKNOWN_PLACEHOLDER",
+      message: `Unknown placeholder: ${unknown.map((name) => `{{${name}}}`).join(", ")}`,
+    },
+  });
+}
+
+/**
+ * List saved replies by shortcut. With sessionId, each also comes with
+ * its placeholders filled in for that session.
+ * GET /chat/saved-replies?sessionId=...
+ */
+savedRepliesRouter.get(
+  "/",
+  validateQuery(z.object({ sessionId: SessionIdSchema.optional() })),
+  async (req, res) => {
+    try {
+      const { sessionId } = req.query as { sessionId?: string };
+
+      const [replies, session] = await Promise.all([
+        prisma.savedReply.findMany({ orderBy: { shortcut: "asc" } }),
+        sessionId ? prisma.chatSession.findUnique({ where: { id: sessionId } }) : null,
+      ]);
+
+      if (sessionId && !session) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "SESSION_NOT_FOUND",
+            message: "Chat session not found",
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: session
+          ? replies.map((reply) => ({
+              ...reply,
+              rendered: fillPlaceholders(reply.content, session),
+            }))
+          : replies,
+      });
+    } catch (error) {
+      logger.error("Failed to list saved replies:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SAVED_REPLIES_FETCH_FAILED",
+          message: "Failed to fetch saved replies",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Add a saved reply
+ * POST /chat/saved-replies
+ */
+savedRepliesRouter.post("/", validateBody(CreateSavedReplySchema), async (req, res) => {
+  const { shortcut, title, content } = req.body;
+
+  const unknown = findUnknownPlaceholders(content);
+  if (unknown.length > 0) {
+    return sendUnknownPlaceholders(res, unknown);
+  }
+
+  try {
+    const reply = await prisma.savedReply.create({
+      data: { shortcut, title, content },
+    });
+
+    logger.info(`Saved reply created: /${shortcut}`);
+
+    res.json({
+      success: true,
+      data: reply,
+    });
+  } catch (error) {
+    if (isShortcutTaken(error)) {
+      return sendShortcutTaken(res, shortcut);
+    }
+    logger.error("Failed to create saved reply:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SAVED_REPLY_FAILED",
+        message: "Failed to save reply",
+      },
+    });
+  }
+});
+
+/**
+ * Update a saved reply
+ * PATCH /chat/saved-replies/:id
+ */
+savedRepliesRouter.patch(
+  "/:id",
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(UpdateSavedReplySchema),
+  async (req, res) => {
+    const { shortcut, title, content } = req.body;
+
+    const unknown = content ? findUnknownPlaceholders(content) : [];
+    if (unknown.length > 0) {
+      return sendUnknownPlaceholders(res, unknown);
+    }
+
+    try {
+      const existing = await prisma.savedReply.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Saved reply not found",
+          },
+        });
+      }
+
+      const reply = await prisma.savedReply.update({
+        where: { id: existing.id },
+        data: { shortcut, title, content },
+      });
+
+      res.json({
+        success: true,
+        data: reply,
+      });
+    } catch (error) {
+      if (isShortcutTaken(error)) {
+        return sendShortcutTaken(res, shortcut);
+      }
+      logger.error("Failed to update saved reply:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SAVED_REPLY_FAILED",
+          message: "Failed to save reply",
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Delete a saved reply
+ * DELETE /chat/saved-replies/:id
+ */
+savedRepliesRouter.delete(
+  "/:id",
+  validateParams(z.object({ id: z.string().uuid() })),
+  async (req, res) => {
+    try {
+      const { count } = await prisma.savedReply.deleteMany({
+        where: { id: req.params.id },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Saved reply not found",
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: null,
+      });
+    } catch (error) {
+      logger.error("Failed to delete saved reply:", error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: "SAVED_REPLY_DELETE_FAILED",
+          message: "Failed to delete saved reply",
+        },
+      });
+    }
+  }
+);
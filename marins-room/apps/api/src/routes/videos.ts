@@ -2,6 +2,7 @@ import { PaginationSchema, UpdateVideoStatusSchema, VideoIdSchema } from "@marin
 import { Router, type IRouter } from "express";
 import { z } from "zod";
 
+import { indexVideo } from "../lib/knowledge.js";
 import { logger } from "../lib/logger.js";
 import { prisma } from "../lib/prisma.js";
 import { getPublicUrl } from "../lib/s3.js";
@@ -127,6 +128,9 @@ videosRouter.patch(
 
     logger.info(`Video ${video.id} status updated to ${status}`);
 
+    // Keep the chat assistant's knowledge in sync (only READY videos are indexed)
+    indexVideo(updated).catch((err) => logger.error("Failed to index video:", err));
+
     res.json({
       success: true,
       data: {
@@ -185,6 +189,8 @@ videosRouter.post(
 
     logger.info(`Video ${video.id} upload confirmed, marked as READY`);
 
+    indexVideo(updated).catch((err) => logger.error("Failed to index video:", err));
+
     res.json({
       success: true,
       data: {
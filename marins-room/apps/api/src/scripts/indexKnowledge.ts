@@ -0,0 +1,16 @@
+// Rebuilds the chat assistant's knowledge index from the blog posts and
+// READY videos. Run after publishing posts: pnpm --filter @marins-room/api knowledge:index
+import "dotenv/config";
+
+import { reindexKnowledge } from "../lib/knowledge.js";
+import { logger } from "../lib/logger.js";
+import { prisma } from "../lib/prisma.js";
+
+reindexKnowledge()
+  .catch((error) => {
+    logger.error("Knowledge indexing failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
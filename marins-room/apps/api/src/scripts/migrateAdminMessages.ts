@@ -0,0 +1,29 @@
+// Converts admin replies stored before the ADMIN role existed (ASSISTANT
+// rows prefixed with "[Marin]: ") to ADMIN rows without the prefix. Safe to
+// run more than once. Run after applying the schema change (pnpm db:push or
+// db:migrate): pnpm --filter @marins-room/api db:migrate-admin-messages
+import "dotenv/config";
+
+import { logger } from "../lib/logger.js";
+import { prisma } from "../lib/prisma.js";
+
+const LEGACY_PREFIX = "[Marin]: ";
+
+async function main() {
+  const converted = await prisma.$executeRaw`
+    UPDATE chat_messages
+    SET role = 'ADMIN', content = substring(content FROM ${LEGACY_PREFIX.length + 1})
+    WHERE role = 'ASSISTANT' AND starts_with(content, ${LEGACY_PREFIX})
+  `;
+
+  logger.info(`Converted ${converted} admin messages to the ADMIN role`);
+}
+
+main()
+  .catch((error) => {
+    logger.error("Admin message migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
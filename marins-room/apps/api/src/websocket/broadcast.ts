@@ -0,0 +1,149 @@
+import type { WsMessage, WsMessageType } from "@marins-room/shared";
+
+import { logger } from "../lib/logger.js";
+import { redis, redisSubscriber } from "../lib/redis.js";
+
+const CHANNEL = "chat:events";
+// Admin inbox events; not numbered or replayed (the inbox reloads its
+// state on every join)
+const INBOX_CHANNEL = "chat:inbox";
+
+// Replay buffer per session: the most recent events, kept for a week
+const REPLAY_LIMIT = 200;
+const REPLAY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Transient events are neither numbered nor replayed
+const TRANSIENT_TYPES: WsMessageType[] = ["TYPING_START", "TYPING_STOP", "AI_RESPONSE_CHUNK"];
+
+// Numbers the event, appends it to the replay buffer and publishes it in one
+// atomic step, so every instance sees events in seq order. The seq is
+// spliced into the JSON as text because cjson would turn empty arrays into
+// objects when re-encoding.
+//   KEYS: seq counter, replay buffer
+//   ARGV: message JSON, envelope JSON prefix, channel, replay limit, ttl
+const PUBLISH_SCRIPT = `
+local seq = redis.call('INCR', KEYS[1])
+local message = '{"seq":' .. seq .. ',' .. string.sub(ARGV[1], 2)
+redis.call('ZADD', KEYS[2], seq, message)
+redis.call('ZREMRANGEBYRANK', KEYS[2], 0, -(tonumber(ARGV[4]) + 1))
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+redis.call('PUBLISH', ARGV[3], ARGV[2] .. message .. '}')
+return seq
+`;
+
+export interface SessionEvent {
+  sessionId: string;
+  message: WsMessage;
+  // Connection that caused the event and should not receive it (e.g. the
+  // sender of a typing indicator)
+  excludeConnectionId?: string;
+}
+
+type Deliver = (event: SessionEvent) => void;
+type DeliverInbox = (message: WsMessage) => void;
+
+let deliverLocally: Deliver | null = null;
+let deliverInboxLocally: DeliverInbox | null = null;
+
+const seqKey = (sessionId: string) => `chat:seq:${sessionId}`;
+const replayKey = (sessionId: string) => `chat:replay:${sessionId}`;
+
+/**
+ * Subscribes this instance to chat events. Every event published by any API
+ * instance (including this one) is passed to `deliver` (session events) or
+ * `deliverInbox` (admin inbox events), which send it to the sockets
+ * connected here.
+ */
+export async function startBroadcastSubscriber(deliver: Deliver, deliverInbox: DeliverInbox) {
+  deliverLocally = deliver;
+  deliverInboxLocally = deliverInbox;
+
+  redisSubscriber.on("message", (channel: string, raw: string) => {
+    try {
+      if (channel === CHANNEL) {
+        deliver(JSON.parse(raw) as SessionEvent);
+      } else if (channel === INBOX_CHANNEL) {
+        deliverInbox(JSON.parse(raw) as WsMessage);
+      }
+    } catch (error) {
+      logger.error("Failed to deliver chat event:", error);
+    }
+  });
+
+  await redisSubscriber.subscribe(CHANNEL, INBOX_CHANNEL);
+  logger.info(`Subscribed to ${CHANNEL} and ${INBOX_CHANNEL}`);
+}
+
+/**
+ * Publishes an event for every socket in the session, on any instance.
+ * Session events get the next seq and are kept for replay. If Redis is
+ * unavailable the event still reaches sockets on this instance, unnumbered.
+ */
+export async function publishSessionEvent(event: SessionEvent) {
+  try {
+    if (TRANSIENT_TYPES.includes(event.message.type)) {
+      await redis.publish(CHANNEL, JSON.stringify(event));
+      return;
+    }
+
+    // '{"sessionId":...,"message":' — the script appends the numbered message
+    const { message, ...envelope } = event;
+    const prefix = `${JSON.stringify(envelope).slice(0, -1)},"message":`;
+
+    await redis.eval(
+      PUBLISH_SCRIPT,
+      2,
+      seqKey(event.sessionId),
+      replayKey(event.sessionId),
+      JSON.stringify(message),
+      prefix,
+      CHANNEL,
+      REPLAY_LIMIT,
+      REPLAY_TTL_SECONDS
+    );
+  } catch (error) {
+    logger.error("Failed to publish chat event, delivering locally only:", error);
+    deliverLocally?.(event);
+  }
+}
+
+/**
+ * Publishes an event to every admin inbox, on any instance.
+ */
+export async function publishInboxEvent(message: WsMessage) {
+  try {
+    await redis.publish(INBOX_CHANNEL, JSON.stringify(message));
+  } catch (error) {
+    logger.error("Failed to publish inbox event, delivering locally only:", error);
+    deliverInboxLocally?.(message);
+  }
+}
+
+/**
+ * The seq of the session's latest event (0 if it has none).
+ */
+export async function getCurrentSeq(sessionId: string): Promise<number> {
+  return Number((await redis.get(seqKey(sessionId))) ?? 0);
+}
+
+/**
+ * Events after `lastSeq`, oldest first, or null when some of them have
+ * already left the replay buffer (or the counter was reset) and the client
+ * needs the full history instead.
+ */
+export async function getEventsSince(
+  sessionId: string,
+  lastSeq: number
+): Promise<{ seq: number; events: WsMessage[] } | null> {
+  const seq = await getCurrentSeq(sessionId);
+  if (seq < lastSeq) return null;
+  if (seq === lastSeq) return { seq, events: [] };
+
+  const raw = await redis.zrangebyscore(replayKey(sessionId), `(${lastSeq}`, "+inf");
+  const events = raw.map((item) => JSON.parse(item) as WsMessage);
+
+  if (events[0]?.seq !== lastSeq + 1) return null;
+
+  return { seq: events[events.length - 1]?.seq ?? seq, events };
+}
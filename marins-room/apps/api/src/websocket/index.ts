@@ -1,29 +1,82 @@
 import type { Server as HttpServer } from "http";
 
-import type { WsMessage, WsJoinSessionPayload, WsSendMessagePayload } from "@marins-room/shared";
-import { WsJoinSessionSchema, WsSendMessageSchema } from "@marins-room/shared";
+import type {
+  ChatMessage,
+  WsMessage,
+  WsMessageType,
+  WsJoinInboxPayload,
+  WsJoinSessionPayload,
+  WsSendMessagePayload,
+  WsSessionClosedPayload,
+  WsSessionModeChangedPayload,
+  WsSetSessionModePayload,
+} from "@marins-room/shared";
+import {
+  SetSessionModeSchema,
+  WsJoinInboxSchema,
+  WsJoinSessionSchema,
+  WsSendMessageSchema,
+} from "@marins-room/shared";
+import { v4 as uuidv4 } from "uuid";
 import { WebSocketServer, WebSocket } from "ws";
 
 import { env } from "../config/env.js";
-import { getAIResponse } from "../lib/ai.js";
+import { generateAssistantReply } from "../lib/assistant.js";
+import { canAttach } from "../lib/attachments.js";
+import { saveSentMessage } from "../lib/chatMessages.js";
+import { requestHuman, setSessionMode, shouldAIReply, type HandoffChange } from "../lib/handoff.js";
+import { getInboxSession, listInboxSessions, markSessionRead } from "../lib/inbox.js";
 import { logger } from "../lib/logger.js";
+import { moderateMessage } from "../lib/moderation.js";
+import { isAllowedOrigin } from "../lib/origins.js";
 import { prisma } from "../lib/prisma.js";
 import { checkRateLimit } from "../lib/redis.js";
+import type { SessionClosure } from "../lib/sessionClose.js";
+import { prepareAdminReply, type AdminReply } from "../lib/translation.js";
+import { toVisitorMessage, toVisitorSession } from "../lib/triage.js";
+import { verifyVisitorToken, visitorIdFromCookies } from "../lib/visitorToken.js";
+
+import {
+  getCurrentSeq,
+  getEventsSince,
+  publishInboxEvent,
+  publishSessionEvent,
+  startBroadcastSubscriber,
+  type SessionEvent,
+} from "./broadcast.js";
 
 interface ClientState {
+  // Identifies the socket in events relayed between instances
+  id: string;
   ws: WebSocket;
   sessionId: string | null;
   isAdmin: boolean;
   ip: string;
+  // From the visitor token cookie sent with the upgrade request
+  visitorId: string | null;
+  // Aborts the AI reply currently streaming for this client's message
+  aiAbort: AbortController | null;
+  // Live events held back while the join snapshot/replay is being sent
+  pendingEvents: WsMessage[] | null;
 }
 
+// Sockets connected to this instance. Events reach sockets on other
+// instances through Redis pub/sub (see broadcast.ts).
 const clients = new Map<WebSocket, ClientState>();
 const sessionClients = new Map<string, Set<WebSocket>>();
+// Admin sockets subscribed to events from every session
+const inboxClients = new Set<WebSocket>();
+
+// Session events that add a message, mirrored to the inbox
+const MESSAGE_EVENT_TYPES: WsMessageType[] = ["MESSAGE_RECEIVED", "AI_RESPONSE", "AI_RESPONSE_COMPLETE"];
 
 export function setupWebSocket(server: HttpServer) {
   const wss = new WebSocketServer({
     server,
     path: "/ws/chat",
+    // CORS doesn't cover WebSockets, so pages on other sites are turned
+    // away here
+    verifyClient: ({ origin }: { origin: string | undefined }) => isAllowedOrigin(origin),
   });
 
   wss.on("connection", (ws, req) => {
@@ -33,10 +86,14 @@ export function setupWebSocket(server: HttpServer) {
 
     // Initialize client state
     clients.set(ws, {
+      id: uuidv4(),
       ws,
       sessionId: null,
       isAdmin: false,
       ip,
+      visitorId: visitorIdFromCookies(req.headers.cookie),
+      aiAbort: null,
+      pendingEvents: null,
     });
 
     ws.on("message", async (data) => {
@@ -51,9 +108,11 @@ export function setupWebSocket(server: HttpServer) {
 
     ws.on("close", () => {
       const state = clients.get(ws);
+      state?.aiAbort?.abort();
       if (state?.sessionId) {
         leaveSession(ws, state.sessionId);
       }
+      inboxClients.delete(ws);
       clients.delete(ws);
       logger.info("WebSocket client disconnected");
     });
@@ -63,6 +122,10 @@ export function setupWebSocket(server: HttpServer) {
     });
   });
 
+  startBroadcastSubscriber(deliverToSession, deliverToInbox).catch((error) => {
+    logger.error("Failed to subscribe to chat events:", error);
+  });
+
   logger.info("WebSocket server initialized");
 }
 
@@ -75,6 +138,7 @@ async function handleMessage(ws: WebSocket, message: WsMessage) {
       await handleJoinSession(ws, state, message.payload as WsJoinSessionPayload);
       break;
     case "LEAVE_SESSION":
+      state.aiAbort?.abort();
       if (state.sessionId) {
         leaveSession(ws, state.sessionId);
         state.sessionId = null;
@@ -83,6 +147,21 @@ async function handleMessage(ws: WebSocket, message: WsMessage) {
     case "SEND_MESSAGE":
       await handleSendMessage(ws, state, message.payload as WsSendMessagePayload);
       break;
+    case "REQUEST_HUMAN":
+      await handleRequestHuman(ws, state);
+      break;
+    case "SET_SESSION_MODE":
+      await handleSetSessionMode(ws, state, message.payload as WsSetSessionModePayload);
+      break;
+    case "JOIN_INBOX":
+      await handleJoinInbox(ws, state, message.payload as WsJoinInboxPayload);
+      break;
+    case "MARK_SESSION_READ":
+      if (state.isAdmin && state.sessionId) {
+        await markSessionRead(state.sessionId);
+        notifyInbox("INBOX_SESSION_UPDATED", state.sessionId);
+      }
+      break;
     case "TYPING_START":
     case "TYPING_STOP":
       // Broadcast typing indicators to session
@@ -109,11 +188,11 @@ async function handleJoinSession(
     return;
   }
 
-  const { sessionId, isAdmin, adminKey } = parsed.data;
+  const { sessionId, isAdmin, adminKey, lastSeq, visitorToken } = parsed.data;
 
   // Verify admin key if claiming admin
   if (isAdmin) {
-    if (!adminKey || adminKey !== env.ADMIN_API_KEY) {
+    if (!isValidAdminKey(adminKey)) {
       sendError(ws, "UNAUTHORIZED", "Invalid admin key");
       return;
     }
@@ -130,32 +209,130 @@ async function handleJoinSession(
     return;
   }
 
+  // The embedded widget can't send the cookie, so it sends the token here
+  if (!state.visitorId && visitorToken) {
+    state.visitorId = verifyVisitorToken(visitorToken);
+  }
+
+  // Visitors can only join their own sessions
+  if (!state.isAdmin && (!state.visitorId || session.visitorId !== state.visitorId)) {
+    sendError(ws, "FORBIDDEN", "You can only join your own chat sessions");
+    return;
+  }
+
   // Leave previous session if any
   if (state.sessionId) {
     leaveSession(ws, state.sessionId);
   }
 
-  // Join new session
+  // Join new session. Events arriving before the client is caught up are
+  // held back so they can't overtake the replay.
   state.sessionId = sessionId;
+  state.pendingEvents = [];
   if (!sessionClients.has(sessionId)) {
     sessionClients.set(sessionId, new Set());
   }
   sessionClients.get(sessionId)!.add(ws);
 
-  // Send session history
+  let sentSeq = 0;
+  try {
+    sentSeq = await sendJoinState(
+      ws,
+      state.isAdmin ? session : toVisitorSession(session),
+      lastSeq,
+      state.isAdmin
+    );
+  } finally {
+    const pending = state.pendingEvents ?? [];
+    state.pendingEvents = null;
+    pending
+      .filter((event) => !event.seq || event.seq > sentSeq)
+      .forEach((event) => ws.send(JSON.stringify(state.isAdmin ? event : toVisitorEvent(event))));
+  }
+
+  // Marin opening the session reads it
+  if (state.isAdmin) {
+    await markSessionRead(sessionId);
+    notifyInbox("INBOX_SESSION_UPDATED", sessionId);
+  }
+
+  logger.info(`Client joined session ${sessionId} (admin: ${state.isAdmin})`);
+}
+
+function isValidAdminKey(adminKey: string | undefined) {
+  return !!adminKey && adminKey === env.ADMIN_API_KEY;
+}
+
+async function handleJoinInbox(ws: WebSocket, state: ClientState, payload: WsJoinInboxPayload) {
+  const parsed = WsJoinInboxSchema.safeParse(payload);
+  if (!parsed.success || !isValidAdminKey(parsed.data.adminKey)) {
+    sendError(ws, "UNAUTHORIZED", "Invalid admin key");
+    return;
+  }
+
+  state.isAdmin = true;
+  inboxClients.add(ws);
+
+  // Subscribed before loading, so no session is missed. An event racing
+  // the list can leave an entry slightly stale until its next event.
+  const sessions = await listInboxSessions();
+  ws.send(
+    JSON.stringify({
+      type: "INBOX_JOINED",
+      payload: { sessions },
+    })
+  );
+
+  logger.info("Admin joined the inbox");
+}
+
+/**
+ * Catches a joining client up: replays the events it missed when it
+ * reconnects with `lastSeq` and they are still buffered, otherwise sends
+ * the whole history. Returns the seq the client is now caught up to.
+ */
+async function sendJoinState(
+  ws: WebSocket,
+  session: { id: string },
+  lastSeq: number | undefined,
+  isAdmin: boolean
+): Promise<number> {
+  if (lastSeq !== undefined) {
+    const missed = await getEventsSince(session.id, lastSeq).catch((error) => {
+      logger.error("Failed to load missed chat events:", error);
+      return null;
+    });
+
+    if (missed) {
+      ws.send(
+        JSON.stringify({
+          type: "SESSION_RESUMED",
+          payload: { session, seq: missed.seq },
+        })
+      );
+      missed.events.forEach((event) =>
+        ws.send(JSON.stringify(isAdmin ? event : toVisitorEvent(event)))
+      );
+      return missed.seq;
+    }
+  }
+
+  // Read the seq first: anything newer is delivered live (and clients
+  // ignore messages they already have)
+  const seq = await getCurrentSeq(session.id).catch(() => 0);
   const messages = await prisma.chatMessage.findMany({
-    where: { sessionId },
+    where: { sessionId: session.id },
     orderBy: { createdAt: "asc" },
+    include: { toolCalls: true, attachments: true, feedback: true },
   });
 
   ws.send(
     JSON.stringify({
       type: "SESSION_JOINED",
-      payload: { session, messages },
+      payload: { session, messages: isAdmin ? messages : messages.map(toVisitorMessage), seq },
     })
   );
-
-  logger.info(`Client joined session ${sessionId} (admin: ${state.isAdmin})`);
+  return seq;
 }
 
 async function handleSendMessage(
@@ -168,6 +345,8 @@ async function handleSendMessage(
     return;
   }
 
+  const sessionId = state.sessionId;
+
   const parsed = WsSendMessageSchema.safeParse(payload);
   if (!parsed.success) {
     sendError(ws, "VALIDATION_ERROR", "Invalid message payload");
@@ -182,11 +361,11 @@ async function handleSendMessage(
     return;
   }
 
-  const { content } = parsed.data;
+  const { content, clientMessageId, attachmentIds, translate } = parsed.data;
 
   // Verify session is still active
   const session = await prisma.chatSession.findUnique({
-    where: { id: state.sessionId },
+    where: { id: sessionId },
   });
 
   if (!session || session.status !== "ACTIVE") {
@@ -194,75 +373,202 @@ async function handleSendMessage(
     return;
   }
 
+  // Only visitors upload attachments (to their own session)
+  if (attachmentIds?.length) {
+    if (state.isAdmin || !(await canAttach(sessionId, attachmentIds, clientMessageId))) {
+      sendError(ws, "INVALID_ATTACHMENT", "Attachment not found or already sent", clientMessageId);
+      return;
+    }
+  }
+
+  // Visitor messages are moderated before they are saved or reach the AI
+  const moderation = state.isAdmin ? null : moderateMessage(content);
+  if (moderation?.blocked) {
+    sendError(ws, "MESSAGE_BLOCKED", moderation.blocked, clientMessageId);
+    return;
+  }
+
+  // Marin's replies can be translated into the visitor's language
+  let adminReply: AdminReply | null = null;
+  if (state.isAdmin) {
+    adminReply = await prepareAdminReply(session, content, translate);
+    if (!adminReply) {
+      sendError(ws, "TRANSLATION_FAILED", "The reply couldn't be translated, so it wasn't sent", clientMessageId);
+      return;
+    }
+  }
+
   // Save message
-  const role = state.isAdmin ? "ASSISTANT" : "USER";
-  const messageContent = state.isAdmin ? `[Marin]: ${content}` : content;
-
-  const message = await prisma.chatMessage.create({
-    data: {
-      sessionId: state.sessionId,
-      role,
-      content: messageContent,
-    },
+  const { message, duplicate } = await saveSentMessage({
+    sessionId,
+    role: state.isAdmin ? "ADMIN" : "USER",
+    content: moderation?.content ?? adminReply?.content ?? content,
+    clientMessageId,
+    aiContent: moderation?.aiContent,
+    flags: moderation?.flags,
+    attachmentIds,
+    language: adminReply?.language,
+    originalContent: adminReply?.originalContent,
   });
 
+  // A resend after reconnecting: confirm it to the sender only, the
+  // session already saw it (and its reply)
+  if (duplicate) {
+    const confirmed = state.isAdmin ? message : toVisitorMessage(message);
+    ws.send(JSON.stringify({ type: "MESSAGE_RECEIVED", payload: { message: confirmed } }));
+    return;
+  }
+
   // Broadcast to all clients in session
-  broadcastToSession(state.sessionId, {
+  broadcastToSession(sessionId, {
     type: "MESSAGE_RECEIVED",
     payload: { message },
   });
 
-  // If user message, get AI response
-  if (!state.isAdmin) {
-    // Get conversation history
-    const history = await prisma.chatMessage.findMany({
-      where: { sessionId: state.sessionId },
-      orderBy: { createdAt: "asc" },
-      take: 20,
-    });
-
+  // If user message, get AI response (unless Marin has taken over)
+  if (!state.isAdmin && (await shouldAIReply(session))) {
     // Broadcast typing indicator
-    broadcastToSession(state.sessionId, {
+    broadcastToSession(sessionId, {
       type: "TYPING_START",
       payload: { isAdmin: false },
     });
 
-    const aiResult = await getAIResponse(
-      history.map((m) => ({
-        role: m.role.toLowerCase() as "user" | "assistant" | "system",
-        content: m.content,
-      }))
-    );
-
-    // Stop typing indicator
-    broadcastToSession(state.sessionId, {
-      type: "TYPING_STOP",
-      payload: { isAdmin: false },
+    const streamId = uuidv4();
+    const abort = new AbortController();
+    state.aiAbort = abort;
+    let typingStopped = false;
+
+    const reply = await generateAssistantReply(sessionId, message, {
+      signal: abort.signal,
+      onToken: (delta) => {
+        // The first chunk replaces the typing indicator
+        if (!typingStopped) {
+          typingStopped = true;
+          broadcastToSession(sessionId, {
+            type: "TYPING_STOP",
+            payload: { isAdmin: false },
+          });
+        }
+
+        broadcastToSession(sessionId, {
+          type: "AI_RESPONSE_CHUNK",
+          payload: { streamId, delta },
+        });
+      },
     });
 
-    if (aiResult.content) {
-      const aiMessage = await prisma.chatMessage.create({
-        data: {
-          sessionId: state.sessionId,
-          role: "ASSISTANT",
-          content: aiResult.content,
-        },
-      });
+    if (state.aiAbort === abort) {
+      state.aiAbort = null;
+    }
+
+    if (reply.aborted) {
+      logger.info(`AI reply for session ${sessionId} aborted after visitor left`);
+    }
 
-      broadcastToSession(state.sessionId, {
-        type: "AI_RESPONSE",
-        payload: { message: aiMessage },
+    // The AI couldn't answer and the session was flagged for follow-up
+    if (reply.fallback) {
+      notifyInbox("INBOX_SESSION_UPDATED", sessionId);
+    }
+
+    if (!typingStopped) {
+      broadcastToSession(sessionId, {
+        type: "TYPING_STOP",
+        payload: { isAdmin: false },
       });
     }
+
+    broadcastToSession(sessionId, {
+      type: "AI_RESPONSE_COMPLETE",
+      payload: { streamId, message: reply.message },
+    });
   }
 
   // Update session timestamp
   await prisma.chatSession.update({
-    where: { id: state.sessionId },
+    where: { id: sessionId },
     data: { updatedAt: new Date() },
   });
 }
 
+async function handleRequestHuman(ws: WebSocket, state: ClientState) {
+  if (!state.sessionId) {
+    sendError(ws, "NOT_IN_SESSION", "You must join a session first");
+    return;
+  }
+
+  const session = await prisma.chatSession.findUnique({
+    where: { id: state.sessionId },
+  });
+
+  if (!session || session.status !== "ACTIVE") {
+    sendError(ws, "SESSION_CLOSED", "This session has been closed");
+    return;
+  }
+
+  const change = await requestHuman(session);
+  if (change) {
+    broadcastHandoff(change);
+    logger.info(`Visitor requested Marin in session ${session.id}`);
+  }
+}
+
+async function handleSetSessionMode(
+  ws: WebSocket,
+  state: ClientState,
+  payload: WsSetSessionModePayload
+) {
+  if (!state.isAdmin) {
+    sendError(ws, "UNAUTHORIZED", "Only admins can change the session mode");
+    return;
+  }
+
+  if (!state.sessionId) {
+    sendError(ws, "NOT_IN_SESSION", "You must join a session first");
+    return;
+  }
+
+  const parsed = SetSessionModeSchema.safeParse(payload);
+  if (!parsed.success) {
+    sendError(ws, "VALIDATION_ERROR", "Invalid session mode");
+    return;
+  }
+
+  broadcastHandoff(await setSessionMode(state.sessionId, parsed.data.mode));
+  logger.info(`Session ${state.sessionId} switched to ${parsed.data.mode} mode`);
+}
+
+/**
+ * Tells everyone in the session about a mode change or handoff request.
+ */
+export function broadcastHandoff({ session, message }: HandoffChange) {
+  broadcastToSession(session.id, {
+    type: "MESSAGE_RECEIVED",
+    payload: { message },
+  });
+
+  const payload: WsSessionModeChangedPayload = {
+    mode: session.mode,
+    humanRequestedAt: session.humanRequestedAt?.toISOString() ?? null,
+  };
+  broadcastToSession(session.id, { type: "SESSION_MODE_CHANGED", payload });
+}
+
+/**
+ * Tells everyone in the session it was closed, and why.
+ */
+export function broadcastSessionClosed(
+  { session, message }: SessionClosure,
+  reason: WsSessionClosedPayload["reason"]
+) {
+  broadcastToSession(session.id, {
+    type: "MESSAGE_RECEIVED",
+    payload: { message },
+  });
+
+  const payload: WsSessionClosedPayload = { reason };
+  broadcastToSession(session.id, { type: "SESSION_CLOSED", payload });
+}
+
 function leaveSession(ws: WebSocket, sessionId: string) {
   const clients = sessionClients.get(sessionId);
   if (clients) {
@@ -273,24 +579,108 @@ function leaveSession(ws: WebSocket, sessionId: string) {
   }
 }
 
-function broadcastToSession(sessionId: string, message: WsMessage, exclude?: WebSocket) {
-  const clients = sessionClients.get(sessionId);
-  if (!clients) return;
+/**
+ * Sends a message to every socket in the session, whichever API instance
+ * it is connected to. Also used by the REST routes so messages sent over
+ * HTTP appear in open chats.
+ */
+export function broadcastToSession(sessionId: string, message: WsMessage, exclude?: WebSocket) {
+  void publishSessionEvent({
+    sessionId,
+    message,
+    excludeConnectionId: exclude ? clients.get(exclude)?.id : undefined,
+  });
+
+  relayToInbox(sessionId, message);
+}
+
+/**
+ * Mirrors session events the inbox cares about: new visitor/AI/admin
+ * messages and mode changes (SYSTEM notices are covered by the latter).
+ */
+function relayToInbox(sessionId: string, message: WsMessage) {
+  if (MESSAGE_EVENT_TYPES.includes(message.type)) {
+    const added = (message.payload as { message?: ChatMessage | null }).message;
+    if (added && added.role !== "SYSTEM") {
+      notifyInbox("INBOX_NEW_MESSAGE", sessionId, added);
+    }
+  } else if (message.type === "SESSION_MODE_CHANGED") {
+    const { humanRequestedAt } = message.payload as WsSessionModeChangedPayload;
+    notifyInbox(humanRequestedAt ? "INBOX_NEEDS_HUMAN" : "INBOX_SESSION_UPDATED", sessionId);
+  }
+}
+
+/**
+ * Sends the session's up-to-date inbox entry to every admin inbox. Also
+ * used by the REST routes for sessions being created and closed.
+ */
+export function notifyInbox(type: WsMessageType, sessionId: string, message?: ChatMessage) {
+  getInboxSession(sessionId)
+    .then((session) => {
+      if (!session) return;
+      return publishInboxEvent({ type, payload: { session, message } });
+    })
+    .catch((error) => {
+      logger.error("Failed to notify the admin inbox:", error);
+    });
+}
+
+function deliverToInbox(message: WsMessage) {
+  const data = JSON.stringify(message);
+  inboxClients.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data);
+    }
+  });
+}
+
+function deliverToSession({ sessionId, message, excludeConnectionId }: SessionEvent) {
+  const sockets = sessionClients.get(sessionId);
+  if (!sockets) return;
+
+  // Marin taking over (or the chat closing) stops any AI reply still
+  // streaming from this instance
+  if (
+    message.type === "SESSION_CLOSED" ||
+    (message.type === "SESSION_MODE_CHANGED" &&
+      (message.payload as WsSessionModeChangedPayload).mode === "HUMAN")
+  ) {
+    sockets.forEach((socket) => clients.get(socket)?.aiAbort?.abort());
+  }
 
   const data = JSON.stringify(message);
-  clients.forEach((client) => {
-    if (client !== exclude && client.readyState === WebSocket.OPEN) {
-      client.send(data);
+  const visitorData = JSON.stringify(toVisitorEvent(message));
+  sockets.forEach((socket) => {
+    const state = clients.get(socket);
+    if (state?.id === excludeConnectionId || socket.readyState !== WebSocket.OPEN) return;
+
+    if (state?.pendingEvents) {
+      state.pendingEvents.push(message);
+    } else {
+      socket.send(state?.isAdmin ? data : visitorData);
     }
   });
 }
 
-function sendError(ws: WebSocket, code: string, message: string) {
+/**
+ * A session event as visitors may see it: messages it carries go through
+ * toVisitorMessage. Other events are the same for everyone.
+ */
+function toVisitorEvent(event: WsMessage): WsMessage {
+  const payload = event.payload as { message?: ChatMessage | null } | undefined;
+  if (!MESSAGE_EVENT_TYPES.includes(event.type) || !payload?.message) {
+    return event;
+  }
+  return { ...event, payload: { ...payload, message: toVisitorMessage(payload.message) } };
+}
+
+
+function sendError(ws: WebSocket, code: string, message: string, clientMessageId?: string) {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(
       JSON.stringify({
         type: "ERROR",
-        payload: { code, message },
+        payload: { code, message, clientMessageId },
       })
     );
   }
@@ -0,0 +1,220 @@
+import Link from "next/link";
+
+import type { FeedbackCounts } from "@marins-room/shared";
+
+import { loadAdminData, untilToExclusive } from "@/lib/admin";
+import { serverApi } from "@/lib/api";
+
+export const metadata = {
+  title: "Chat Feedback",
+  description: "How visitors rate the chat assistant's replies",
+};
+
+export const dynamic = "force-dynamic";
+
+interface FeedbackFilters {
+  from?: string;
+  to?: string;
+  interval?: string;
+}
+
+const inputClass =
+  "px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+function formatSatisfaction({ satisfaction }: FeedbackCounts) {
+  return satisfaction === null ? "–" : `${Math.round(satisfaction * 100)}%`;
+}
+
+export default async function FeedbackPage({ searchParams }: { searchParams: FeedbackFilters }) {
+  const { from, to } = searchParams;
+  const interval = searchParams.interval === "week" ? "week" : "day";
+
+  const report = await loadAdminData(
+    serverApi.getFeedbackReport({
+      from: from || undefined,
+      to: untilToExclusive(to),
+      interval,
+    })
+  );
+
+  const { totals, timeline, byModel, byPromptVersion, worstSessions } = report;
+  const busiestPeriod = Math.max(1, ...timeline.map((row) => row.up + row.down));
+
+  return (
+    <div className="container mx-auto px-4 py-12 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-4xl font-bold text-gray-900">Chat Feedback</h1>
+        <Link href="/admin" className="text-primary-600 hover:text-primary-700">
+          ← Dashboard
+        </Link>
+      </div>
+
+      <form className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-600">
+          From
+          <input type="date" name="from" defaultValue={from} className={`${inputClass} block`} />
+        </label>
+        <label className="text-sm text-gray-600">
+          Until
+          <input type="date" name="to" defaultValue={to} className={`${inputClass} block`} />
+        </label>
+        <label className="text-sm text-gray-600">
+          Group by
+          <select name="interval" defaultValue={interval} className={`${inputClass} block`}>
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+        >
+          Apply
+        </button>
+      </form>
+
+      <div className="grid sm:grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">Satisfaction</div>
+          <div className="text-3xl font-bold text-gray-900">{formatSatisfaction(totals)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">👍 Helpful</div>
+          <div className="text-3xl font-bold text-green-700">{totals.up}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">👎 Not helpful</div>
+          <div className="text-3xl font-bold text-red-700">{totals.down}</div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Ratings over time */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Over time</h2>
+
+          {timeline.length === 0 ? (
+            <p className="text-gray-500 text-sm">No ratings in this period.</p>
+          ) : (
+            <ul className="space-y-2">
+              {timeline.map((row) => (
+                <li key={String(row.period)} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 shrink-0 text-gray-600">
+                    {new Date(row.period).toLocaleDateString()}
+                  </span>
+                  <div
+                    className="flex h-3 rounded overflow-hidden"
+                    style={{ width: `${((row.up + row.down) / busiestPeriod) * 100}%` }}
+                  >
+                    <div className="bg-green-500" style={{ flexGrow: row.up }} />
+                    <div className="bg-red-500" style={{ flexGrow: row.down }} />
+                  </div>
+                  <span className="shrink-0 text-gray-500">{formatSatisfaction(row)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Ratings per model */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">By model</h2>
+
+          {byModel.length === 0 ? (
+            <p className="text-gray-500 text-sm">No ratings in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-normal pb-2">Model</th>
+                  <th className="font-normal pb-2 text-right">👍</th>
+                  <th className="font-normal pb-2 text-right">👎</th>
+                  <th className="font-normal pb-2 text-right">Satisfaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byModel.map((row) => (
+                  <tr key={row.model ?? "unknown"} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-900">{row.model ?? "Unknown"}</td>
+                    <td className="py-2 text-right">{row.up}</td>
+                    <td className="py-2 text-right">{row.down}</td>
+                    <td className="py-2 text-right">{formatSatisfaction(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Ratings per system prompt version (A/B tests) */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">By prompt version</h2>
+          <Link href="/admin/prompts" className="text-sm text-primary-600 hover:text-primary-700">
+            Manage prompts
+          </Link>
+        </div>
+
+        {byPromptVersion.length === 0 ? (
+          <p className="text-gray-500 text-sm">No ratings in this period.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal pb-2">Version</th>
+                <th className="font-normal pb-2 text-right">👍</th>
+                <th className="font-normal pb-2 text-right">👎</th>
+                <th className="font-normal pb-2 text-right">Satisfaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byPromptVersion.map((row) => (
+                <tr key={row.promptVersionId ?? "built-in"} className="border-t border-gray-100">
+                  <td className="py-2 text-gray-900">{row.name ?? "Built-in prompt"}</td>
+                  <td className="py-2 text-right">{row.up}</td>
+                  <td className="py-2 text-right">{row.down}</td>
+                  <td className="py-2 text-right">{formatSatisfaction(row)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Conversations to read */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Worst rated conversations</h2>
+
+        {worstSessions.length === 0 ? (
+          <p className="text-gray-500 text-sm">No thumbs down in this period.</p>
+        ) : (
+          <div className="space-y-3">
+            {worstSessions.map((session) => (
+              <Link
+                key={session.sessionId}
+                href={`/admin/sessions/${session.sessionId}`}
+                className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900">
+                    {session.visitorName || "Anonymous"}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    👍 {session.up} · 👎 {session.down}
+                  </span>
+                </div>
+                {session.lastComment && (
+                  <div className="text-sm text-gray-600 truncate">“{session.lastComment}”</div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {new Date(session.createdAt).toLocaleString()}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import Link from "next/link";
-import { redirect } from "next/navigation";
 
+import type { ChatIncidentKind, SearchSessionsRequest } from "@marins-room/shared";
+
+import { ChatInbox } from "@/components/admin/ChatInbox";
+import { SessionSearch, type SessionSearchFilters } from "@/components/admin/SessionSearch";
+import { loadAdminData, untilToExclusive } from "@/lib/admin";
 import { serverApi } from "@/lib/api";
 
+const INCIDENT_LABELS: Record<ChatIncidentKind, string> = {
+  PROMPT_INJECTION: "Injection attempt",
+  PROMPT_LEAK: "Prompt leak",
+  DISALLOWED_CLAIM: "Spoke for Marin",
+};
+
 export const metadata = {
   title: "Admin Dashboard",
   description: "Admin dashboard for Marin's Room",
@@ -10,83 +20,77 @@ export const metadata = {
 
 export const dynamic = "force-dynamic";
 
-async function checkAdminAuth() {
-  // Server-side admin check
-  const adminKey = process.env.ADMIN_API_KEY;
-  if (!adminKey) {
-    return false;
+const SEARCH_PAGE_SIZE = 10;
+
+// Turns the search form's values into API filters, or null when nothing
+// is being searched for
+function toSearchRequest(filters: SessionSearchFilters): SearchSessionsRequest | null {
+  const { q, status, from, to, visitorName, hasAdminReply, tags, page } = filters;
+  if (!q && !status && !from && !to && !visitorName && !hasAdminReply && !tags) {
+    return null;
   }
 
-  // Try to make an admin-only request
-  const response = await serverApi.listChatSessions(1, 1);
-  return response.success;
+  return {
+    q: q || undefined,
+    status: status === "ACTIVE" || status === "CLOSED" ? status : undefined,
+    from: from || undefined,
+    to: untilToExclusive(to),
+    visitorName: visitorName || undefined,
+    hasAdminReply: hasAdminReply ? hasAdminReply === "true" : undefined,
+    tags: tags
+      ?.split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+    page: Number(page) || 1,
+    pageSize: SEARCH_PAGE_SIZE,
+  };
 }
 
-export default async function AdminPage() {
-  const isAdmin = await checkAdminAuth();
-
-  if (!isAdmin) {
-    redirect("/");
-  }
+export default async function AdminPage({ searchParams }: { searchParams: SessionSearchFilters }) {
+  const searchRequest = toSearchRequest(searchParams);
 
   // Fetch data in parallel
-  const [sessionsRes, donationsRes, videosRes] = await Promise.all([
-    serverApi.listChatSessions(1, 10),
+  const [inbox, donationsRes, videosRes, incidentsRes, searchRes] = await Promise.all([
+    loadAdminData(serverApi.listChatSessions(1, 10)),
     serverApi.listDonations(1, 10),
     serverApi.listVideos(1, 10),
+    serverApi.listChatIncidents(1, 10),
+    searchRequest ? serverApi.searchChatSessions(searchRequest) : null,
   ]);
 
-  const sessions = sessionsRes.success && sessionsRes.data ? sessionsRes.data.sessions : [];
   const donations = donationsRes.success && donationsRes.data ? donationsRes.data.items : [];
   const videos = videosRes.success && videosRes.data ? videosRes.data.items : [];
+  const incidents = incidentsRes.success && incidentsRes.data ? incidentsRes.data.items : [];
 
   return (
     <div className="container mx-auto px-4 py-12">
-      <h1 className="text-4xl font-bold text-gray-900 mb-8">Admin Dashboard</h1>
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-4xl font-bold text-gray-900">Admin Dashboard</h1>
+        <div className="flex gap-6">
+          <Link href="/admin/feedback" className="text-primary-600 hover:text-primary-700">
+            Feedback
+          </Link>
+          <Link href="/admin/usage" className="text-primary-600 hover:text-primary-700">
+            Usage
+          </Link>
+          <Link href="/admin/prompts" className="text-primary-600 hover:text-primary-700">
+            Prompts
+          </Link>
+          <Link href="/admin/saved-replies" className="text-primary-600 hover:text-primary-700">
+            Saved replies
+          </Link>
+        </div>
+      </div>
 
       <div className="grid lg:grid-cols-3 gap-8">
         {/* Chat Sessions */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center justify-between">
-            Recent Chat Sessions
-            <span className="text-sm font-normal text-gray-500">
-              {sessionsRes.data?.total || 0} total
-            </span>
-          </h2>
+        <ChatInbox initialSessions={inbox.sessions} total={inbox.total} />
 
-          {sessions.length === 0 ? (
-            <p className="text-gray-500 text-sm">No chat sessions yet.</p>
-          ) : (
-            <div className="space-y-3">
-              {sessions.map((session) => (
-                <Link
-                  key={session.id}
-                  href={`/admin/sessions/${session.id}`}
-                  className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                >
-                  <div className="flex items-center justify-between mb-1">
-                    <span className="font-medium text-gray-900">
-                      {session.visitorName || "Anonymous"}
-                    </span>
-                    <span
-                      className={`text-xs px-2 py-0.5 rounded-full ${
-                        session.status === "ACTIVE"
-                          ? "bg-green-100 text-green-700"
-                          : "bg-gray-200 text-gray-600"
-                      }`}
-                    >
-                      {session.status}
-                    </span>
-                  </div>
-                  <div className="text-xs text-gray-500">
-                    {session.messageCount} messages •{" "}
-                    {new Date(session.updatedAt).toLocaleString()}
-                  </div>
-                </Link>
-              ))}
-            </div>
-          )}
-        </div>
+        <SessionSearch
+          filters={searchParams}
+          results={searchRes?.success && searchRes.data ? searchRes.data : null}
+          pageSize={SEARCH_PAGE_SIZE}
+        />
 
         {/* Donations */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
@@ -164,6 +168,43 @@ export default async function AdminPage() {
             </div>
           )}
         </div>
+
+        {/* Prompt guard incidents */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center justify-between">
+            Chat Incidents
+            <span className="text-sm font-normal text-gray-500">
+              {incidentsRes.data?.total || 0} total
+            </span>
+          </h2>
+
+          {incidents.length === 0 ? (
+            <p className="text-gray-500 text-sm">No incidents.</p>
+          ) : (
+            <div className="space-y-3">
+              {incidents.map((incident) => (
+                <Link
+                  key={incident.id}
+                  href={`/admin/sessions/${incident.sessionId}`}
+                  className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                      {INCIDENT_LABELS[incident.kind]}
+                    </span>
+                    {incident.score !== null && (
+                      <span className="text-xs text-gray-500">score {incident.score}</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600 truncate">{incident.content}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(incident.createdAt).toLocaleString()}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,296 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import type {
+  PromptVersion,
+  PromptVersionList,
+  SetActivePromptsRequest,
+} from "@marins-room/shared";
+
+import { useAdminKey } from "@/lib/adminKey";
+
+const inputClass =
+  "w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+export default function PromptsPage() {
+  const [list, setList] = useState<PromptVersionList | null>(null);
+  const [form, setForm] = useState({ name: "", content: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  const { api } = useAdminKey(setError);
+
+  const versions = list?.versions ?? [];
+  const active = versions.filter((version) => version.weight > 0);
+  const totalWeight = active.reduce((sum, version) => sum + version.weight, 0);
+
+  useEffect(() => {
+    if (!api) return;
+    api.listPromptVersions().then((res) => {
+      if (res.success && res.data) {
+        const data = res.data;
+        setList(data);
+        // Start the next version from what new chats get today
+        const current = data.versions.find((version) => version.weight > 0);
+        setForm({ name: "", content: current?.content ?? data.defaultPrompt });
+      } else {
+        setError(res.error?.message || "Failed to load prompt versions");
+      }
+    });
+  }, [api]);
+
+  const setActive = async (variants: SetActivePromptsRequest["variants"]) => {
+    if (!api) return;
+
+    setError(null);
+    const res = await api.setActivePrompts({ variants });
+    if (res.success && res.data) {
+      setList(res.data);
+    } else {
+      setError(res.error?.message || "Failed to change the active prompt");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!api) return;
+
+    setError(null);
+    const res = await api.createPromptVersion(form);
+    if (!res.success || !res.data) {
+      setError(res.error?.message || "Failed to save prompt version");
+      return;
+    }
+
+    const created = res.data;
+    setList((prev) => prev && { ...prev, versions: [created, ...prev.versions] });
+    setForm({ ...form, name: "" });
+  };
+
+  const handleActivate = (version: PromptVersion) => {
+    if (!window.confirm(`Give "${version.name}" to every new chat?`)) return;
+    setActive([{ promptVersionId: version.id, weight: 100 }]);
+  };
+
+  const handleAddVariant = (version: PromptVersion) => {
+    const input = window.prompt(
+      `Weight for "${version.name}" (1-100). Active versions share new chats in proportion to their weights.`,
+      "50"
+    );
+    const weight = Number(input);
+    if (!input || !Number.isInteger(weight) || weight < 1 || weight > 100) return;
+
+    setActive([
+      ...active.map((v) => ({ promptVersionId: v.id, weight: v.weight })),
+      { promptVersionId: version.id, weight },
+    ]);
+  };
+
+  const handleDeactivate = (version: PromptVersion) => {
+    setActive(
+      active
+        .filter((v) => v.id !== version.id)
+        .map((v) => ({ promptVersionId: v.id, weight: v.weight }))
+    );
+  };
+
+  const handleRename = async (version: PromptVersion) => {
+    const name = window.prompt("New name:", version.name)?.trim();
+    if (!api || !name || name === version.name) return;
+
+    const res = await api.updatePromptVersion(version.id, { name });
+    if (res.success && res.data) {
+      const renamed = res.data;
+      setList(
+        (prev) =>
+          prev && {
+            ...prev,
+            versions: prev.versions.map((v) => (v.id === renamed.id ? renamed : v)),
+          }
+      );
+    } else {
+      setError(res.error?.message || "Failed to rename prompt version");
+    }
+  };
+
+  const handleDelete = async (version: PromptVersion) => {
+    if (!api || !window.confirm(`Delete "${version.name}"?`)) return;
+
+    const res = await api.deletePromptVersion(version.id);
+    if (res.success) {
+      setList(
+        (prev) => prev && { ...prev, versions: prev.versions.filter((v) => v.id !== version.id) }
+      );
+    } else {
+      setError(res.error?.message || "Failed to delete prompt version");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/admin"
+          className="text-primary-600 hover:text-primary-700 text-sm mb-6 inline-flex items-center gap-1"
+        >
+          ← Back to Dashboard
+        </Link>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">System Prompts</h1>
+        <p className="text-gray-600 mb-6">
+          The instructions the AI assistant follows. New chats get the active version (or one of the
+          active versions, by weight, for an A/B test); chats already under way keep the version
+          they started with. Compare versions on the{" "}
+          <Link href="/admin/feedback" className="text-primary-600 hover:text-primary-700">
+            feedback report
+          </Link>
+          .
+        </p>
+
+        {error && (
+          <div role="alert" className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6 space-y-3"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">New version</h2>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name, e.g. Shorter answers"
+            aria-label="Name"
+            maxLength={100}
+            required
+            className={inputClass}
+          />
+          <textarea
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            aria-label="Prompt"
+            maxLength={20000}
+            rows={10}
+            required
+            className={`${inputClass} font-mono`}
+          />
+          <p className="text-xs text-gray-500">
+            Saved versions can&apos;t be edited, only renamed, so every reply can be traced to the
+            prompt that wrote it. New versions start inactive.
+          </p>
+          <button
+            type="submit"
+            disabled={!api}
+            className="px-4 py-2 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            Save version
+          </button>
+        </form>
+
+        <div className="flex items-center justify-between mb-3 text-sm">
+          <span className="text-gray-600">
+            {active.length === 0
+              ? "New chats get the built-in prompt."
+              : active.length === 1
+                ? `New chats get "${active[0]!.name}".`
+                : `A/B test between ${active.length} versions.`}
+          </span>
+          {active.length > 0 && (
+            <button
+              onClick={() => setActive([])}
+              className="text-primary-600 hover:text-primary-700"
+            >
+              Use the built-in prompt
+            </button>
+          )}
+        </div>
+
+        {versions.length === 0 ? (
+          <p className="text-gray-500 text-sm">No prompt versions yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className="bg-white rounded-xl shadow-sm border border-gray-100 p-4"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{version.name}</span>
+                    {version.weight > 0 && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">
+                        {active.length > 1
+                          ? `Active · ${Math.round((version.weight / totalWeight) * 100)}%`
+                          : "Active"}
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex gap-3 text-sm">
+                    {version.weight === 0 && (
+                      <button
+                        onClick={() => handleActivate(version)}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        Activate
+                      </button>
+                    )}
+                    {version.weight === 0 && active.length > 0 && (
+                      <button
+                        onClick={() => handleAddVariant(version)}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        Add to A/B test
+                      </button>
+                    )}
+                    {version.weight > 0 && active.length > 1 && (
+                      <button
+                        onClick={() => handleDeactivate(version)}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        Remove from test
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setForm({ name: "", content: version.content })}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Copy
+                    </button>
+                    <button
+                      onClick={() => handleRename(version)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Rename
+                    </button>
+                    {version.weight === 0 && version.sessionCount === 0 && (
+                      <button
+                        onClick={() => handleDelete(version)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mb-2">
+                  Saved {new Date(version.createdAt).toLocaleString()} · {version.sessionCount}{" "}
+                  {version.sessionCount === 1 ? "chat" : "chats"}
+                </div>
+                <details>
+                  <summary className="text-sm text-gray-600 cursor-pointer">Prompt</summary>
+                  <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap">
+                    {version.content}
+                  </p>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
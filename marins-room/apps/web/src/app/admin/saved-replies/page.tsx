@@ -0,0 +1,196 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import type { SavedReply } from "@marins-room/shared";
+
+import { useAdminKey } from "@/lib/adminKey";
+
+const EMPTY_FORM = { shortcut: "", title: "", content: "" };
+
+const inputClass =
+  "w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+export default function SavedRepliesPage() {
+  const [replies, setReplies] = useState<SavedReply[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { api } = useAdminKey(setError);
+
+  useEffect(() => {
+    if (!api) return;
+    api.listSavedReplies().then((res) => {
+      if (res.success && res.data) {
+        setReplies(res.data);
+      } else {
+        setError(res.error?.message || "Failed to load saved replies");
+      }
+    });
+  }, [api]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!api) return;
+
+    setError(null);
+    const res = editingId
+      ? await api.updateSavedReply(editingId, form)
+      : await api.createSavedReply(form);
+
+    if (!res.success || !res.data) {
+      setError(res.error?.message || "Failed to save reply");
+      return;
+    }
+
+    const saved = res.data;
+    setReplies((prev) =>
+      [...prev.filter((reply) => reply.id !== saved.id), saved].sort((a, b) =>
+        a.shortcut.localeCompare(b.shortcut)
+      )
+    );
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (reply: SavedReply) => {
+    setEditingId(reply.id);
+    setForm({ shortcut: reply.shortcut, title: reply.title, content: reply.content });
+  };
+
+  const handleDelete = async (reply: SavedReply) => {
+    if (!api || !window.confirm(`Delete /${reply.shortcut}?`)) return;
+
+    const res = await api.deleteSavedReply(reply.id);
+    if (res.success) {
+      setReplies((prev) => prev.filter((r) => r.id !== reply.id));
+    } else {
+      setError(res.error?.message || "Failed to delete reply");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-3xl mx-auto">
+        <Link
+          href="/admin"
+          className="text-primary-600 hover:text-primary-700 text-sm mb-6 inline-flex items-center gap-1"
+        >
+          ← Back to Dashboard
+        </Link>
+
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Saved Replies</h1>
+        <p className="text-gray-600 mb-6">
+          Type <code>/shortcut</code> in a chat reply to insert one. Use{" "}
+          <code>{"{{visitorName}}"}</code> or <code>{"{{firstName}}"}</code> to fill in the
+          visitor&apos;s name (&quot;there&quot; if they didn&apos;t give one).
+        </p>
+
+        {error && (
+          <div role="alert" className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6 space-y-3"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">
+            {editingId ? "Edit reply" : "New reply"}
+          </h2>
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={form.shortcut}
+              onChange={(e) => setForm({ ...form, shortcut: e.target.value })}
+              placeholder="shortcut"
+              aria-label="Shortcut"
+              maxLength={32}
+              required
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Title"
+              aria-label="Title"
+              maxLength={100}
+              required
+              className={`${inputClass} col-span-2`}
+            />
+          </div>
+          <textarea
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            placeholder="Hi {{firstName}}, ..."
+            aria-label="Reply"
+            maxLength={4000}
+            rows={4}
+            required
+            className={inputClass}
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={!api}
+              className="px-4 py-2 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {editingId ? "Save changes" : "Add reply"}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(EMPTY_FORM);
+                }}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {replies.length === 0 ? (
+          <p className="text-gray-500 text-sm">No saved replies yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {replies.map((reply) => (
+              <div
+                key={reply.id}
+                className="bg-white rounded-xl shadow-sm border border-gray-100 p-4"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span>
+                    <span className="font-medium text-gray-900">/{reply.shortcut}</span>{" "}
+                    <span className="text-gray-500">{reply.title}</span>
+                  </span>
+                  <span className="flex gap-3 text-sm">
+                    <button
+                      onClick={() => handleEdit(reply)}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(reply)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 whitespace-pre-wrap">{reply.content}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
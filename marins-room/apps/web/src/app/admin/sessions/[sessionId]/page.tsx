@@ -4,9 +4,47 @@ import Link from "next/link";
 import { useParams } from "next/navigation";
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import type { ChatMessage, ChatSession, WsMessage } from "@marins-room/shared";
+import { ADMIN_LANGUAGE } from "@marins-room/shared";
+import type {
+  ChatMessage,
+  ChatSession,
+  ChatSessionMode,
+  MessageRole,
+  ModerationFlag,
+  SavedReply,
+  TranscriptFormat,
+  WsAIResponseCompletePayload,
+  WsMessage,
+  WsSessionModeChangedPayload,
+} from "@marins-room/shared";
 
+import { MessageTranslation, languageLabel } from "@/components/admin/MessageTranslation";
+import { SavedReplyInput } from "@/components/admin/SavedReplyInput";
+import { SessionTriage } from "@/components/admin/SessionTriage";
+import { MessageAttachments } from "@/components/chat/MessageAttachments";
+import { MessageCitations } from "@/components/chat/MessageCitations";
+import { MessageToolCalls } from "@/components/chat/MessageToolCalls";
+import { useAdminKey } from "@/lib/adminKey";
 import { wsUrl } from "@/lib/api";
+import { TRANSCRIPT_FORMATS, downloadTranscript } from "@/lib/transcript";
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  USER: "Visitor",
+  ASSISTANT: "AI assistant",
+  ADMIN: "Marin",
+  SYSTEM: "System",
+};
+
+const FLAG_LABELS: Record<ModerationFlag, string> = {
+  PII: "Personal info",
+  PROFANITY: "Profanity",
+};
+
+const MODE_OPTIONS: { mode: ChatSessionMode; label: string }[] = [
+  { mode: "AI", label: "AI only" },
+  { mode: "HYBRID", label: "Hybrid" },
+  { mode: "HUMAN", label: "Take over" },
+];
 
 export default function AdminSessionPage() {
   const params = useParams();
@@ -17,6 +55,11 @@ export default function AdminSessionPage() {
   const [input, setInput] = useState("");
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Used for the WebSocket and REST calls (export, triage) alike
+  const { adminKey, api } = useAdminKey(setError);
+  const [savedReplies, setSavedReplies] = useState<SavedReply[]>([]);
+  // Send replies in the visitor's language (when it isn't Marin's)
+  const [translateReply, setTranslateReply] = useState(true);
 
   const wsRef = useRef<WebSocket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -30,12 +73,7 @@ export default function AdminSessionPage() {
   }, [messages]);
 
   const connectWebSocket = useCallback(() => {
-    // Get admin key from prompt (in production, use proper auth)
-    const adminKey = window.prompt("Enter admin API key:");
-    if (!adminKey) {
-      setError("Admin key required");
-      return;
-    }
+    if (!adminKey) return;
 
     const ws = new WebSocket(wsUrl);
 
@@ -69,12 +107,42 @@ export default function AdminSessionPage() {
           setMessages(history);
           break;
         }
+        case "SESSION_MODE_CHANGED": {
+          const { mode, humanRequestedAt } = message.payload as WsSessionModeChangedPayload;
+          setSession((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  mode,
+                  humanRequestedAt: humanRequestedAt ? new Date(humanRequestedAt) : null,
+                }
+              : prev
+          );
+          break;
+        }
         case "MESSAGE_RECEIVED":
         case "AI_RESPONSE": {
           const { message: newMsg } = message.payload as {
             message: ChatMessage;
           };
           setMessages((prev) => [...prev, newMsg]);
+          // Seen here, so it shouldn't count as unread in the inbox
+          if (newMsg.role === "USER") {
+            ws.send(JSON.stringify({ type: "MARK_SESSION_READ", payload: {} }));
+          }
+          // The server makes it the session's language too
+          if (newMsg.role === "USER" && newMsg.language) {
+            const language = newMsg.language;
+            setSession((prev) => (prev ? { ...prev, language } : prev));
+          }
+          break;
+        }
+        case "AI_RESPONSE_COMPLETE": {
+          // Admins see the finished reply rather than the token stream
+          const { message: finalMsg } = message.payload as WsAIResponseCompletePayload;
+          if (finalMsg) {
+            setMessages((prev) => [...prev, finalMsg]);
+          }
           break;
         }
         case "ERROR": {
@@ -95,7 +163,7 @@ export default function AdminSessionPage() {
     };
 
     wsRef.current = ws;
-  }, [sessionId]);
+  }, [adminKey, sessionId]);
 
   useEffect(() => {
     connectWebSocket();
@@ -104,6 +172,11 @@ export default function AdminSessionPage() {
     };
   }, [connectWebSocket]);
 
+  const flaggedCount = messages.filter((m) => m.flags && m.flags.length > 0).length;
+
+  const visitorLanguage =
+    session?.language && session.language !== ADMIN_LANGUAGE ? session.language : null;
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || !wsRef.current || !isConnected) return;
@@ -111,13 +184,43 @@ export default function AdminSessionPage() {
     wsRef.current.send(
       JSON.stringify({
         type: "SEND_MESSAGE",
-        payload: { content: input.trim() },
+        payload: { content: input.trim(), translate: !!visitorLanguage && translateReply },
       })
     );
 
     setInput("");
   };
 
+  const handleSetMode = (mode: ChatSessionMode) => {
+    if (!wsRef.current || !isConnected) return;
+
+    wsRef.current.send(
+      JSON.stringify({
+        type: "SET_SESSION_MODE",
+        payload: { mode },
+      })
+    );
+  };
+
+  // Filled in for this visitor, so they're ready to insert
+  const visitorName = session?.visitorName;
+  useEffect(() => {
+    if (!api) return;
+    api.listSavedReplies(sessionId).then((res) => {
+      if (res.success && res.data) setSavedReplies(res.data);
+    });
+  }, [api, sessionId, visitorName]);
+
+  const handleExport = async (format: TranscriptFormat) => {
+    if (!api) return;
+
+    // Admin exports include moderation flags and tool calls
+    const exportError = await downloadTranscript(api, sessionId, format);
+    if (exportError) {
+      setError(exportError);
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-6">
       <div className="max-w-3xl mx-auto">
@@ -163,8 +266,53 @@ export default function AdminSessionPage() {
                 {isConnected ? "Connected" : "Disconnected"}
               </span>
             </div>
+            <div className="mt-3 flex items-center justify-between gap-3">
+              <div className="inline-flex rounded-lg border border-gray-200 overflow-hidden">
+                {MODE_OPTIONS.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleSetMode(mode)}
+                    disabled={!isConnected || session?.mode === mode}
+                    className={`px-3 py-1.5 text-sm ${
+                      session?.mode === mode
+                        ? "bg-primary-600 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    } disabled:cursor-default`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={!session}
+                    className="px-3 py-1 rounded-lg text-sm border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    title={`Export as ${label}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {flaggedCount > 0 && (
+                  <span className="px-3 py-1 rounded-full text-sm bg-red-100 text-red-700">
+                    {flaggedCount} flagged
+                  </span>
+                )}
+                {session?.humanRequestedAt && (
+                  <span className="px-3 py-1 rounded-full text-sm bg-amber-100 text-amber-800">
+                    Visitor asked for you
+                  </span>
+                )}
+              </div>
+            </div>
           </div>
 
+          {api && session && (
+            <SessionTriage api={api} session={session} onSessionChange={setSession} />
+          )}
+
           {/* Messages */}
           <div className="h-[500px] overflow-y-auto p-6 space-y-4 bg-gray-50">
             {messages.map((message) => (
@@ -178,13 +326,35 @@ export default function AdminSessionPage() {
                   className={`max-w-[80%] px-4 py-3 rounded-2xl ${
                     message.role === "USER"
                       ? "bg-white border border-gray-200 text-gray-800 rounded-bl-md"
-                      : "bg-primary-600 text-white rounded-br-md"
+                      : message.role === "ADMIN"
+                        ? "bg-primary-600 text-white rounded-br-md"
+                        : "bg-gray-700 text-white rounded-br-md"
                   }`}
                 >
-                  <div className="text-xs opacity-70 mb-1">
-                    {message.role === "USER" ? "Visitor" : "Response"}
-                  </div>
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <div className="text-xs opacity-70 mb-1">{ROLE_LABELS[message.role]}</div>
+                  {message.flags && message.flags.length > 0 && (
+                    <div className="flex gap-1 mb-1" aria-label="Moderation flags">
+                      {message.flags.map((flag) => (
+                        <span
+                          key={flag}
+                          className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700"
+                        >
+                          {FLAG_LABELS[flag]}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <MessageToolCalls toolCalls={message.toolCalls} />
+                  {message.content && (
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  )}
+                  <MessageAttachments attachments={message.attachments} />
+                  <MessageCitations citations={message.citations} />
+                  <MessageTranslation
+                    api={api}
+                    message={message}
+                    sessionLanguage={session?.language}
+                  />
                 </div>
               </div>
             ))}
@@ -197,13 +367,11 @@ export default function AdminSessionPage() {
             className="px-6 py-4 border-t border-gray-100 bg-white"
           >
             <div className="flex gap-3">
-              <input
-                type="text"
+              <SavedReplyInput
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Reply as Marin..."
+                onChange={setInput}
+                replies={savedReplies}
                 disabled={!isConnected}
-                className="flex-1 px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
               />
               <button
                 type="submit"
@@ -213,6 +381,16 @@ export default function AdminSessionPage() {
                 Send
               </button>
             </div>
+            {visitorLanguage && (
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={translateReply}
+                  onChange={(e) => setTranslateReply(e.target.checked)}
+                />
+                Translate my reply to {languageLabel(visitorLanguage)} before sending
+              </label>
+            )}
           </form>
         </div>
 
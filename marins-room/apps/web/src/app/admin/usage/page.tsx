@@ -0,0 +1,211 @@
+import Link from "next/link";
+
+import type { UsageKind, UsageTotals } from "@marins-room/shared";
+
+import { loadAdminData, untilToExclusive } from "@/lib/admin";
+import { serverApi } from "@/lib/api";
+
+export const metadata = {
+  title: "AI Usage",
+  description: "How many AI tokens the chat assistant uses",
+};
+
+export const dynamic = "force-dynamic";
+
+interface UsageFilters {
+  from?: string;
+  to?: string;
+  interval?: string;
+}
+
+const inputClass =
+  "px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+const KIND_LABELS: Record<UsageKind, string> = {
+  REPLY: "Replies",
+  SUMMARY: "Summaries",
+  TRANSLATION: "Translations",
+};
+
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString();
+}
+
+function formatLatency({ avgLatencyMs }: UsageTotals) {
+  return avgLatencyMs === null ? "–" : `${(avgLatencyMs / 1000).toFixed(1)}s`;
+}
+
+export default async function UsagePage({ searchParams }: { searchParams: UsageFilters }) {
+  const { from, to } = searchParams;
+  const interval = searchParams.interval === "week" ? "week" : "day";
+
+  const report = await loadAdminData(
+    serverApi.getUsageReport({
+      from: from || undefined,
+      to: untilToExclusive(to),
+      interval,
+    })
+  );
+
+  const { totals, timeline, byModel, byKind, topSessions, caps } = report;
+  const busiestPeriod = Math.max(1, ...timeline.map((row) => row.totalTokens));
+
+  return (
+    <div className="container mx-auto px-4 py-12 space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-4xl font-bold text-gray-900">AI Usage</h1>
+        <Link href="/admin" className="text-primary-600 hover:text-primary-700">
+          ← Dashboard
+        </Link>
+      </div>
+
+      <form className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-600">
+          From
+          <input type="date" name="from" defaultValue={from} className={`${inputClass} block`} />
+        </label>
+        <label className="text-sm text-gray-600">
+          Until
+          <input type="date" name="to" defaultValue={to} className={`${inputClass} block`} />
+        </label>
+        <label className="text-sm text-gray-600">
+          Group by
+          <select name="interval" defaultValue={interval} className={`${inputClass} block`}>
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+        >
+          Apply
+        </button>
+      </form>
+
+      <div className="grid sm:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">Tokens</div>
+          <div className="text-3xl font-bold text-gray-900">{formatTokens(totals.totalTokens)}</div>
+          <div className="text-xs text-gray-500">
+            {formatTokens(totals.promptTokens)} prompt · {formatTokens(totals.completionTokens)}{" "}
+            completion
+          </div>
+          {byKind.length > 1 && (
+            <div className="text-xs text-gray-500">
+              {byKind
+                .map((row) => `${KIND_LABELS[row.kind]} ${formatTokens(row.totalTokens)}`)
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">AI replies</div>
+          <div className="text-3xl font-bold text-gray-900">{totals.replies}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">Average latency</div>
+          <div className="text-3xl font-bold text-gray-900">{formatLatency(totals)}</div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="text-sm text-gray-500">Today (UTC)</div>
+          <div className="text-3xl font-bold text-gray-900">{formatTokens(caps.usedToday)}</div>
+          <div className="text-xs text-gray-500">
+            Daily cap: {caps.dailyTokens === null ? "none" : formatTokens(caps.dailyTokens)} ·
+            Session cap: {caps.sessionTokens === null ? "none" : formatTokens(caps.sessionTokens)}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Tokens over time */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Over time</h2>
+
+          {timeline.length === 0 ? (
+            <p className="text-gray-500 text-sm">No AI replies in this period.</p>
+          ) : (
+            <ul className="space-y-2">
+              {timeline.map((row) => (
+                <li key={String(row.period)} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 shrink-0 text-gray-600">
+                    {new Date(row.period).toLocaleDateString()}
+                  </span>
+                  <div
+                    className="flex h-3 rounded overflow-hidden"
+                    style={{ width: `${(row.totalTokens / busiestPeriod) * 100}%` }}
+                  >
+                    <div className="bg-primary-300" style={{ flexGrow: row.promptTokens }} />
+                    <div className="bg-primary-600" style={{ flexGrow: row.completionTokens }} />
+                  </div>
+                  <span className="shrink-0 text-gray-500">{formatTokens(row.totalTokens)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Tokens per model */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">By model</h2>
+
+          {byModel.length === 0 ? (
+            <p className="text-gray-500 text-sm">No AI replies in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-normal pb-2">Model</th>
+                  <th className="font-normal pb-2 text-right">Replies</th>
+                  <th className="font-normal pb-2 text-right">Tokens</th>
+                  <th className="font-normal pb-2 text-right">Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byModel.map((row) => (
+                  <tr key={row.model ?? "unknown"} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-900">{row.model ?? "Unknown"}</td>
+                    <td className="py-2 text-right">{row.replies}</td>
+                    <td className="py-2 text-right">{formatTokens(row.totalTokens)}</td>
+                    <td className="py-2 text-right">{formatLatency(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Most expensive conversations */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Top conversations</h2>
+
+        {topSessions.length === 0 ? (
+          <p className="text-gray-500 text-sm">No AI replies in this period.</p>
+        ) : (
+          <div className="space-y-3">
+            {topSessions.map((session) => (
+              <Link
+                key={session.sessionId}
+                href={`/admin/sessions/${session.sessionId}`}
+                className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900">
+                    {session.visitorName || "Anonymous"}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatTokens(session.totalTokens)} tokens · {session.replies} replies
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(session.createdAt).toLocaleString()}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
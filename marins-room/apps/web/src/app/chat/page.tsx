@@ -2,21 +2,95 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import type { ChatMessage, WsMessage } from "@marins-room/shared";
-
+import type {
+  ChatAttachment,
+  ChatMessage,
+  ChatSession,
+  ChatSessionMode,
+  VisitorSessionSummary,
+  WsAIResponseChunkPayload,
+  WsAIResponseCompletePayload,
+  WsErrorPayload,
+  WsMessage,
+  WsSessionJoinedPayload,
+  WsSessionModeChangedPayload,
+  WsSessionResumedPayload,
+} from "@marins-room/shared";
+
+import { MessageAttachments } from "@/components/chat/MessageAttachments";
+import { MessageCitations } from "@/components/chat/MessageCitations";
+import { MessageFeedback } from "@/components/chat/MessageFeedback";
 import { clientApi, wsUrl } from "@/lib/api";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  uploadAttachment,
+} from "@/lib/attachments";
+import { downloadTranscript } from "@/lib/transcript";
+
+// Reconnect delays double from 1s up to 30s
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+interface PendingMessage {
+  clientMessageId: string;
+  content: string;
+  attachmentIds?: string[];
+}
 
 export default function ChatPage() {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
+  // Uploaded, to be sent with the next message
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // Sent but not yet confirmed by the server; resent after a reconnect
+  const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<{
+    streamId: string;
+    content: string;
+  } | null>(null);
+  const [mode, setMode] = useState<ChatSessionMode>("AI");
+  const [humanRequested, setHumanRequested] = useState(false);
+  // Closed by Marin or for inactivity; no more messages can be sent
+  const [isClosed, setIsClosed] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Chats this browser started before, found by the visitor cookie
+  const [pastSessions, setPastSessions] = useState<VisitorSessionSummary[]>([]);
 
   const wsRef = useRef<WebSocket | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingRef = useRef<PendingMessage[]>([]);
+  // Highest event seq seen; null until the first join
+  const lastSeqRef = useRef<number | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmountedRef = useRef(false);
+
+  const updatePending = useCallback(
+    (update: (prev: PendingMessage[]) => PendingMessage[]) => {
+      pendingRef.current = update(pendingRef.current);
+      setPendingMessages(pendingRef.current);
+    },
+    []
+  );
+
+  // Replays and resends can deliver a message twice; keep the first copy
+  const appendMessage = useCallback(
+    (message: ChatMessage) => {
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      if (message.clientMessageId) {
+        updatePending((prev) => prev.filter((p) => p.clientMessageId !== message.clientMessageId));
+      }
+    },
+    [updatePending]
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -24,7 +98,7 @@ export default function ChatPage() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, pendingMessages, streamingReply]);
 
   const startSession = useCallback(async () => {
     setIsLoading(true);
@@ -52,12 +126,27 @@ export default function ChatPage() {
     (sid: string) => {
       const ws = new WebSocket(wsUrl);
 
+      const applySession = (session: ChatSession) => {
+        setMode(session.mode);
+        setHumanRequested(session.humanRequestedAt !== null);
+        setIsClosed(session.status === "CLOSED");
+      };
+
+      // Anything still unconfirmed is sent again; the server ignores repeats
+      const flushPending = () => {
+        pendingRef.current.forEach((pending) => {
+          ws.send(JSON.stringify({ type: "SEND_MESSAGE", payload: pending }));
+        });
+      };
+
       ws.onopen = () => {
         setIsConnected(true);
+        setIsReconnecting(false);
+        reconnectAttemptRef.current = 0;
         ws.send(
           JSON.stringify({
             type: "JOIN_SESSION",
-            payload: { sessionId: sid },
+            payload: { sessionId: sid, lastSeq: lastSeqRef.current ?? undefined },
           })
         );
       };
@@ -65,23 +154,73 @@ export default function ChatPage() {
       ws.onmessage = (event) => {
         const message = JSON.parse(event.data) as WsMessage;
 
+        if (message.seq !== undefined) {
+          // Already seen, e.g. delivered live just before a reconnect
+          if (lastSeqRef.current !== null && message.seq <= lastSeqRef.current) return;
+          lastSeqRef.current = message.seq;
+        }
+
         switch (message.type) {
           case "SESSION_JOINED": {
-            const { messages: history } = message.payload as {
-              messages: ChatMessage[];
-            };
+            const { session, messages: history, seq } =
+              message.payload as WsSessionJoinedPayload;
+            lastSeqRef.current = seq;
             setMessages(history);
+            const saved = new Set(history.map((m) => m.clientMessageId));
+            updatePending((prev) => prev.filter((p) => !saved.has(p.clientMessageId)));
+            applySession(session);
+            flushPending();
+            break;
+          }
+          case "SESSION_RESUMED": {
+            // Missed events follow this message, each with its own seq
+            const { session } = message.payload as WsSessionResumedPayload;
+            applySession(session);
+            flushPending();
             break;
           }
+          case "SESSION_MODE_CHANGED": {
+            const payload = message.payload as WsSessionModeChangedPayload;
+            setMode(payload.mode);
+            setHumanRequested(payload.humanRequestedAt !== null);
+            break;
+          }
+          case "SESSION_CLOSED":
+            // The SYSTEM notice saying why came just before
+            setIsClosed(true);
+            setIsTyping(false);
+            setStreamingReply(null);
+            // The server rejects anything still unsent
+            updatePending(() => []);
+            break;
           case "MESSAGE_RECEIVED":
           case "AI_RESPONSE": {
             const { message: newMsg } = message.payload as {
               message: ChatMessage;
             };
-            setMessages((prev) => [...prev, newMsg]);
+            appendMessage(newMsg);
             setIsTyping(false);
             break;
           }
+          case "AI_RESPONSE_CHUNK": {
+            const { streamId, delta } = message.payload as WsAIResponseChunkPayload;
+            setIsTyping(false);
+            setStreamingReply((prev) =>
+              prev?.streamId === streamId
+                ? { streamId, content: prev.content + delta }
+                : { streamId, content: delta }
+            );
+            break;
+          }
+          case "AI_RESPONSE_COMPLETE": {
+            const { streamId, message: finalMsg } =
+              message.payload as WsAIResponseCompletePayload;
+            if (finalMsg) {
+              appendMessage(finalMsg);
+            }
+            setStreamingReply((prev) => (prev?.streamId === streamId ? null : prev));
+            break;
+          }
           case "TYPING_START":
             setIsTyping(true);
             break;
@@ -89,7 +228,15 @@ export default function ChatPage() {
             setIsTyping(false);
             break;
           case "ERROR": {
-            const { message: errMsg } = message.payload as { message: string };
+            const { code, message: errMsg, clientMessageId } = message.payload as WsErrorPayload;
+            // A rejected send (e.g. blocked by moderation) won't succeed on retry
+            if (clientMessageId) {
+              updatePending((prev) => prev.filter((p) => p.clientMessageId !== clientMessageId));
+            }
+            if (code === "SESSION_CLOSED") {
+              setIsClosed(true);
+              break;
+            }
             setError(errMsg);
             break;
           }
@@ -98,18 +245,41 @@ export default function ChatPage() {
 
       ws.onclose = () => {
         setIsConnected(false);
+        setIsTyping(false);
+        // An interrupted stream is replaced by its replayed AI_RESPONSE_COMPLETE
+        setStreamingReply(null);
+        if (unmountedRef.current) return;
+
+        const delay = Math.min(
+          RECONNECT_BASE_MS * 2 ** reconnectAttemptRef.current,
+          RECONNECT_MAX_MS
+        );
+        reconnectAttemptRef.current += 1;
+        setIsReconnecting(true);
+        reconnectTimerRef.current = setTimeout(
+          () => connectWebSocket(sid),
+          delay + Math.random() * 500
+        );
       };
 
       ws.onerror = () => {
-        setError("Connection error. Please refresh and try again.");
+        // onclose follows and schedules the reconnect
         setIsConnected(false);
       };
 
       wsRef.current = ws;
     },
-    []
+    [appendMessage, updatePending]
   );
 
+  useEffect(() => {
+    clientApi.listMySessions().then((response) => {
+      if (response.success && response.data) {
+        setPastSessions(response.data);
+      }
+    });
+  }, []);
+
   const handleStartChat = async () => {
     const sid = await startSession();
     if (sid) {
@@ -117,26 +287,111 @@ export default function ChatPage() {
     }
   };
 
+  // Leaves the closed chat (without reconnecting to it) and starts over
+  const handleStartNewChat = async () => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    if (wsRef.current) {
+      wsRef.current.onclose = null;
+      wsRef.current.close();
+      wsRef.current = null;
+    }
+
+    lastSeqRef.current = null;
+    reconnectAttemptRef.current = 0;
+    updatePending(() => []);
+    setMessages([]);
+    setAttachments([]);
+    setStreamingReply(null);
+    setIsTyping(false);
+    setIsConnected(false);
+    setIsReconnecting(false);
+    setMode("AI");
+    setHumanRequested(false);
+    setIsClosed(false);
+    setError(null);
+
+    await handleStartChat();
+  };
+
+  // Joining sends the history, like a reconnect with nothing seen yet
+  const handleResumeChat = (sid: string) => {
+    setError(null);
+    setSessionId(sid);
+    connectWebSocket(sid);
+  };
+
+  const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!sessionId || files.length === 0) return;
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length;
+    if (files.length > room) {
+      setError(`You can send up to ${MAX_ATTACHMENTS_PER_MESSAGE} files with a message`);
+    }
+
+    setIsUploading(true);
+    for (const file of files.slice(0, room)) {
+      const result = await uploadAttachment(clientApi, sessionId, file);
+      if ("error" in result) {
+        setError(`${file.name}: ${result.error}`);
+      } else {
+        setAttachments((prev) => [...prev, result.attachment]);
+      }
+    }
+    setIsUploading(false);
+  };
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !wsRef.current || !isConnected) return;
+    if (isUploading || (!input.trim() && attachments.length === 0)) return;
 
-    wsRef.current.send(
-      JSON.stringify({
-        type: "SEND_MESSAGE",
-        payload: { content: input.trim() },
-      })
-    );
+    // Kept until the server echoes it back; sent on reconnect if offline
+    const pending: PendingMessage = {
+      clientMessageId: crypto.randomUUID(),
+      content: input.trim(),
+      ...(attachments.length > 0 && { attachmentIds: attachments.map((a) => a.id) }),
+    };
+    updatePending((prev) => [...prev, pending]);
+
+    if (wsRef.current && isConnected) {
+      wsRef.current.send(
+        JSON.stringify({
+          type: "SEND_MESSAGE",
+          payload: pending,
+        })
+      );
+    }
 
     setInput("");
+    setAttachments([]);
+  };
+
+  const handleRequestHuman = () => {
+    if (!wsRef.current || !isConnected) return;
+
+    wsRef.current.send(JSON.stringify({ type: "REQUEST_HUMAN", payload: {} }));
+    setHumanRequested(true);
   };
 
   useEffect(() => {
     return () => {
+      unmountedRef.current = true;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
       wsRef.current?.close();
     };
   }, []);
 
+  const handleSaveTranscript = async () => {
+    if (!sessionId) return;
+
+    // HTML opens in any browser, which suits visitors best
+    const exportError = await downloadTranscript(clientApi, sessionId, "html");
+    if (exportError) {
+      setError(exportError);
+    }
+  };
+
   if (!sessionId) {
     return (
       <div className="container mx-auto px-4 py-12">
@@ -184,6 +439,30 @@ export default function ChatPage() {
           >
             {isLoading ? "Starting..." : "Start Chat"}
           </button>
+
+          {pastSessions.length > 0 && (
+            <div className="mt-10 text-left">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Your previous chats</h2>
+              <ul className="space-y-2">
+                {pastSessions.map((past) => (
+                  <li key={past.id}>
+                    <button
+                      onClick={() => handleResumeChat(past.id)}
+                      className="w-full text-left p-3 bg-white border border-gray-100 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                        <span>{new Date(past.updatedAt).toLocaleString()}</span>
+                        <span>{past.status === "ACTIVE" ? "Open" : "Closed"}</span>
+                      </div>
+                      {past.lastMessage && (
+                        <p className="text-sm text-gray-700 truncate">{past.lastMessage.content}</p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -218,12 +497,40 @@ export default function ChatPage() {
                         className="w-2 h-2 bg-gray-400 rounded-full"
                         aria-hidden="true"
                       />
-                      <span aria-live="polite">Connecting...</span>
+                      <span aria-live="polite">
+                        {isReconnecting ? "Reconnecting..." : "Connecting..."}
+                      </span>
                     </span>
                   )}
                 </p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleSaveTranscript}
+                disabled={messages.length === 0}
+                className="px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save chat
+              </button>
+              {isClosed ? (
+                <span className="px-3 py-1 rounded-full text-xs bg-gray-100 text-gray-600">
+                  Closed
+                </span>
+              ) : mode === "AI" ? (
+                <button
+                  onClick={handleRequestHuman}
+                  disabled={!isConnected || humanRequested}
+                  className="px-3 py-1.5 text-sm text-primary-600 border border-primary-200 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {humanRequested ? "Marin has been notified" : "Talk to Marin"}
+                </button>
+              ) : (
+                <span className="px-3 py-1 rounded-full text-xs bg-amber-100 text-amber-800">
+                  Marin is here
+                </span>
+              )}
+            </div>
           </div>
 
           {/* Messages */}
@@ -232,25 +539,63 @@ export default function ChatPage() {
             aria-live="polite"
             aria-label="Chat messages"
           >
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${
-                  message.role === "USER" ? "justify-end" : "justify-start"
-                }`}
-              >
+            {messages.map((message) =>
+              message.role === "SYSTEM" ? (
+                <p key={message.id} className="text-center text-xs text-gray-500">
+                  {message.content}
+                </p>
+              ) : (
                 <div
-                  className={`max-w-[80%] px-4 py-3 rounded-2xl ${
-                    message.role === "USER"
-                      ? "bg-primary-600 text-white rounded-br-md"
-                      : "bg-gray-100 text-gray-800 rounded-bl-md"
+                  key={message.id}
+                  className={`flex ${
+                    message.role === "USER" ? "justify-end" : "justify-start"
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <div
+                    className={`max-w-[80%] px-4 py-3 rounded-2xl ${
+                      message.role === "USER"
+                        ? "bg-primary-600 text-white rounded-br-md"
+                        : message.role === "ADMIN"
+                          ? "bg-amber-50 border border-amber-200 text-gray-800 rounded-bl-md"
+                          : "bg-gray-100 text-gray-800 rounded-bl-md"
+                    }`}
+                  >
+                    {message.role === "ADMIN" && (
+                      <div className="text-xs font-medium text-amber-700 mb-1">Marin</div>
+                    )}
+                    {message.content && (
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                    )}
+                    <MessageAttachments attachments={message.attachments} />
+                    <MessageCitations citations={message.citations} />
+                    {message.role === "ASSISTANT" && (
+                      <MessageFeedback messageId={message.id} feedback={message.feedback} />
+                    )}
+                  </div>
+                </div>
+              )
+            )}
+
+            {pendingMessages.map((pending) => (
+              <div key={pending.clientMessageId} className="flex justify-end">
+                <div className="max-w-[80%] px-4 py-3 rounded-2xl bg-primary-600 text-white rounded-br-md opacity-60">
+                  <p className="text-sm whitespace-pre-wrap">{pending.content}</p>
+                  {pending.attachmentIds && (
+                    <p className="text-xs mt-1">📎 {pending.attachmentIds.length} attached</p>
+                  )}
+                  <p className="text-xs mt-1">Sending...</p>
                 </div>
               </div>
             ))}
 
+            {streamingReply && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] px-4 py-3 rounded-2xl bg-gray-100 text-gray-800 rounded-bl-md">
+                  <p className="text-sm whitespace-pre-wrap">{streamingReply.content}</p>
+                </div>
+              </div>
+            )}
+
             {isTyping && (
               <div className="flex justify-start">
                 <div className="bg-gray-100 px-4 py-3 rounded-2xl rounded-bl-md">
@@ -273,28 +618,80 @@ export default function ChatPage() {
           </div>
 
           {/* Input */}
-          <form
-            onSubmit={handleSendMessage}
-            className="px-6 py-4 border-t border-gray-100"
-          >
-            <div className="flex gap-3">
-              <input
-                type="text"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Type a message..."
-                disabled={!isConnected}
-                className="flex-1 px-4 py-3 border border-gray-200 rounded-full focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
-              />
+          {isClosed ? (
+            <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">This chat has ended.</p>
               <button
-                type="submit"
-                disabled={!input.trim() || !isConnected}
-                className="px-6 py-3 bg-primary-600 text-white rounded-full hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleStartNewChat}
+                disabled={isLoading}
+                className="px-6 py-3 bg-primary-600 text-white rounded-full hover:bg-primary-700 transition-colors disabled:opacity-50"
               >
-                Send
+                {isLoading ? "Starting..." : "Start new chat"}
               </button>
             </div>
-          </form>
+          ) : (
+            <form
+              onSubmit={handleSendMessage}
+              className="px-6 py-4 border-t border-gray-100"
+            >
+              {attachments.length > 0 && (
+                <ul className="flex flex-wrap gap-2 mb-3" aria-label="Files to send">
+                  {attachments.map((attachment) => (
+                    <li
+                      key={attachment.id}
+                      className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
+                    >
+                      📎 {attachment.fileName}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setAttachments((prev) => prev.filter((a) => a.id !== attachment.id))
+                        }
+                        aria-label={`Remove ${attachment.fileName}`}
+                        className="ml-1 text-gray-400 hover:text-gray-600"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  onChange={handleAttachFiles}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading || attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  aria-label="Attach a file"
+                  title="Attach a screenshot or file"
+                  className="px-4 py-3 text-gray-500 border border-gray-200 rounded-full hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isUploading ? "…" : "📎"}
+                </button>
+                <input
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder="Type a message..."
+                  className="flex-1 px-4 py-3 border border-gray-200 rounded-full focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
+                />
+                <button
+                  type="submit"
+                  disabled={isUploading || (!input.trim() && attachments.length === 0)}
+                  className="px-6 py-3 bg-primary-600 text-white rounded-full hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Send
+                </button>
+              </div>
+            </form>
+          )}
         </div>
 
         {error && (
@@ -0,0 +1,22 @@
+import { wsUrl } from "@/lib/api";
+import { chatWidget, type WidgetDefaults } from "@/lib/widget";
+
+// The URLs the chat page uses; data-api-url and data-ws-url override them
+const defaults: WidgetDefaults = {
+  apiUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000",
+  wsUrl,
+};
+
+/**
+ * The embeddable chat widget script
+ * GET /widget.js
+ */
+export function GET() {
+  return new Response(`(${chatWidget.toString()})(${JSON.stringify(defaults)});\n`, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      // Short, so sites embedding it pick up fixes quickly
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+
+import type {
+  ChatSessionPriority,
+  InboxSession,
+  WsInboxEventPayload,
+  WsInboxJoinedPayload,
+  WsMessage,
+} from "@marins-room/shared";
+
+import { PRIORITY_LABELS, PRIORITY_STYLES } from "@/components/admin/SessionTriage";
+import { promptAdminKey } from "@/lib/adminKey";
+import { wsUrl } from "@/lib/api";
+
+// How often the "waiting for" labels are refreshed
+const TICK_MS = 30 * 1000;
+
+const PRIORITY_ORDER: Record<ChatSessionPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  NORMAL: 2,
+  LOW: 3,
+};
+
+function timestamp(date: Date | string | null) {
+  return date ? new Date(date).getTime() : null;
+}
+
+// Visitors who asked for Marin first, then by priority, then whoever has
+// waited longest, then the most recently active
+function compareSessions(a: InboxSession, b: InboxSession) {
+  if (!!a.humanRequestedAt !== !!b.humanRequestedAt) {
+    return a.humanRequestedAt ? -1 : 1;
+  }
+
+  const priorityA = PRIORITY_ORDER[a.priority ?? "NORMAL"];
+  const priorityB = PRIORITY_ORDER[b.priority ?? "NORMAL"];
+  if (priorityA !== priorityB) {
+    return priorityA - priorityB;
+  }
+
+  const waitingA = timestamp(a.waitingSince);
+  const waitingB = timestamp(b.waitingSince);
+  if (waitingA !== waitingB) {
+    if (waitingA === null) return 1;
+    if (waitingB === null) return -1;
+    return waitingA - waitingB;
+  }
+
+  return timestamp(b.updatedAt)! - timestamp(a.updatedAt)!;
+}
+
+function formatWaiting(since: Date | string, now: number) {
+  const minutes = Math.floor((now - new Date(since).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Chat sessions for the admin dashboard. Starts from the server-rendered
+ * list; once Marin goes live it follows every session over the WebSocket
+ * inbox channel, with unread counts and the longest-waiting visitors first.
+ */
+export function ChatInbox({
+  initialSessions,
+  total,
+}: {
+  initialSessions: InboxSession[];
+  total: number;
+}) {
+  const [sessions, setSessions] = useState<InboxSession[]>(initialSessions);
+  const [isLive, setIsLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const wsRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => {
+      clearInterval(timer);
+      wsRef.current?.close();
+    };
+  }, []);
+
+  const goLive = () => {
+    const adminKey = promptAdminKey();
+    if (!adminKey) return;
+
+    setError(null);
+    const ws = new WebSocket(wsUrl);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "JOIN_INBOX", payload: { adminKey } }));
+    };
+
+    ws.onmessage = (event) => {
+      const message = JSON.parse(event.data) as WsMessage;
+
+      switch (message.type) {
+        case "INBOX_JOINED": {
+          const payload = message.payload as WsInboxJoinedPayload;
+          setSessions(payload.sessions);
+          setIsLive(true);
+          break;
+        }
+        case "INBOX_SESSION_CLOSED": {
+          const { session } = message.payload as WsInboxEventPayload;
+          setSessions((prev) => prev.filter((s) => s.id !== session.id));
+          break;
+        }
+        case "INBOX_SESSION_CREATED":
+        case "INBOX_NEW_MESSAGE":
+        case "INBOX_NEEDS_HUMAN":
+        case "INBOX_SESSION_UPDATED": {
+          const { session } = message.payload as WsInboxEventPayload;
+          setSessions((prev) => [...prev.filter((s) => s.id !== session.id), session]);
+          break;
+        }
+        case "ERROR": {
+          const { message: errMsg } = message.payload as { message: string };
+          setError(errMsg);
+          break;
+        }
+      }
+    };
+
+    ws.onclose = () => {
+      setIsLive(false);
+    };
+
+    wsRef.current = ws;
+  };
+
+  const sorted = [...sessions].sort(compareSessions);
+  const unreadTotal = sessions.reduce((sum, s) => sum + s.unreadCount, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center justify-between">
+        <span className="flex items-center gap-2">
+          {isLive ? "Inbox" : "Recent Chat Sessions"}
+          {unreadTotal > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-primary-600 text-white">
+              {unreadTotal}
+            </span>
+          )}
+        </span>
+        {isLive ? (
+          <span className="flex items-center gap-1 text-sm font-normal text-gray-500">
+            <span className="w-2 h-2 bg-green-500 rounded-full" aria-hidden="true" />
+            Live
+          </span>
+        ) : (
+          <button
+            onClick={goLive}
+            className="text-sm font-normal text-primary-600 hover:text-primary-700"
+          >
+            Go live
+          </button>
+        )}
+      </h2>
+
+      {!isLive && <p className="text-sm text-gray-500 mb-3">{total} total</p>}
+
+      {error && (
+        <div role="alert" className="mb-3 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {sorted.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          {isLive ? "No active chats." : "No chat sessions yet."}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {sorted.map((session) => (
+            <Link
+              key={session.id}
+              href={`/admin/sessions/${session.id}`}
+              className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900">
+                  {session.visitorName || "Anonymous"}
+                  {session.humanRequestedAt && (
+                    <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                      Needs Marin
+                    </span>
+                  )}
+                  {session.priority && session.priority !== "NORMAL" && (
+                    <span
+                      className={`ml-2 text-xs px-2 py-0.5 rounded-full ${PRIORITY_STYLES[session.priority]}`}
+                    >
+                      {PRIORITY_LABELS[session.priority]}
+                    </span>
+                  )}
+                  {session.mode !== "AI" && (
+                    <span className="ml-2 text-xs text-gray-500">{session.mode}</span>
+                  )}
+                </span>
+                <span className="flex items-center gap-2">
+                  {session.unreadCount > 0 && (
+                    <span
+                      className="text-xs px-2 py-0.5 rounded-full bg-primary-600 text-white"
+                      aria-label={`${session.unreadCount} unread`}
+                    >
+                      {session.unreadCount}
+                    </span>
+                  )}
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${
+                      session.status === "ACTIVE"
+                        ? "bg-green-100 text-green-700"
+                        : "bg-gray-200 text-gray-600"
+                    }`}
+                  >
+                    {session.status}
+                  </span>
+                </span>
+              </div>
+              {session.lastMessage && (
+                <p className="text-sm text-gray-600 truncate mb-1">{session.lastMessage.content}</p>
+              )}
+              {session.tags && session.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-1">
+                  {session.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-700"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="text-xs text-gray-500">
+                {session.messageCount} messages •{" "}
+                {session.waitingSince ? (
+                  <span className="text-amber-700">
+                    waiting {formatWaiting(session.waitingSince, now)}
+                  </span>
+                ) : (
+                  new Date(session.updatedAt).toLocaleString()
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import {
+  ADMIN_LANGUAGE,
+  CHAT_LANGUAGES,
+  type ApiClient,
+  type ChatLanguage,
+  type ChatMessage,
+} from "@marins-room/shared";
+import { useState } from "react";
+
+export function languageLabel(language: string) {
+  return CHAT_LANGUAGES[language as ChatLanguage] ?? language;
+}
+
+/**
+ * Under a message on the admin session page: for visitor and AI messages
+ * in another language, the language and an on-demand translation into
+ * ADMIN_LANGUAGE; for Marin's translated replies, what they wrote.
+ */
+export function MessageTranslation({
+  api,
+  message,
+  sessionLanguage,
+}: {
+  api: ApiClient | null;
+  message: ChatMessage;
+  // AI replies have no detected language; they're in the session's
+  sessionLanguage?: string | null;
+}) {
+  const [translation, setTranslation] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (message.role === "ADMIN") {
+    return message.originalContent ? (
+      <p className="mt-2 pt-2 border-t border-white/20 text-xs opacity-80 whitespace-pre-wrap">
+        {message.language && `Sent in ${languageLabel(message.language)}. `}You wrote:{" "}
+        {message.originalContent}
+      </p>
+    ) : null;
+  }
+
+  const language = message.language ?? sessionLanguage;
+  if (message.role === "SYSTEM" || !message.content || !language || language === ADMIN_LANGUAGE) {
+    return null;
+  }
+
+  const handleTranslate = async () => {
+    if (!api) return;
+
+    setIsLoading(true);
+    setError(null);
+    const res = await api.translateMessage(message.id);
+    if (res.success && res.data) {
+      setTranslation(res.data.translation);
+    } else {
+      setError(res.error?.message || "Failed to translate");
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-black/10 text-xs">
+      <div className="flex items-center gap-2 opacity-70">
+        <span>{languageLabel(language)}</span>
+        {api && translation === null && (
+          <button
+            onClick={handleTranslate}
+            disabled={isLoading}
+            className="underline hover:no-underline disabled:opacity-50"
+          >
+            {isLoading ? "Translating..." : `Translate to ${languageLabel(ADMIN_LANGUAGE)}`}
+          </button>
+        )}
+      </div>
+      {translation !== null && <p className="mt-1 whitespace-pre-wrap">{translation}</p>}
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+
+import type { SavedReply } from "@marins-room/shared";
+
+// A "/shortcut" being typed at the end of the reply
+const SLASH_COMMAND = /(^|\s)\/([a-z0-9-]*)$/i;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * The admin reply box. Typing "/" opens a picker of saved replies
+ * filtered by shortcut; picking one (click, Enter or Tab) replaces the
+ * "/shortcut" with the reply, placeholders already filled in, so Marin can
+ * still edit it before sending.
+ */
+export function SavedReplyInput({
+  value,
+  onChange,
+  replies,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  replies: SavedReply[];
+  disabled?: boolean;
+}) {
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const command = value.match(SLASH_COMMAND);
+  const query = command?.[2]?.toLowerCase() ?? "";
+  const suggestions =
+    command && !dismissed
+      ? replies
+          .filter(
+            (reply) => reply.shortcut.startsWith(query) || reply.title.toLowerCase().includes(query)
+          )
+          .slice(0, MAX_SUGGESTIONS)
+      : [];
+  const isOpen = suggestions.length > 0;
+
+  const insert = (reply: SavedReply) => {
+    const text = reply.rendered ?? reply.content;
+    onChange(value.replace(SLASH_COMMAND, (_match, before: string) => before + text));
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      // Pick instead of sending the "/shortcut" itself
+      e.preventDefault();
+      insert(suggestions[Math.min(highlighted, suggestions.length - 1)]!);
+    } else if (e.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Reply as Marin... (type / for saved replies)"
+        disabled={disabled}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls="saved-reply-suggestions"
+        aria-autocomplete="list"
+        className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50"
+      />
+      {isOpen && (
+        <ul
+          id="saved-reply-suggestions"
+          role="listbox"
+          className="absolute bottom-full mb-2 left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+        >
+          {suggestions.map((reply, i) => (
+            <li
+              key={reply.id}
+              role="option"
+              aria-selected={i === highlighted}
+              // mousedown, so the input keeps focus
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insert(reply);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-4 py-2 cursor-pointer ${i === highlighted ? "bg-primary-50" : ""}`}
+            >
+              <div className="text-sm">
+                <span className="font-medium text-gray-900">/{reply.shortcut}</span>{" "}
+                <span className="text-gray-500">{reply.title}</span>
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {reply.rendered ?? reply.content}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
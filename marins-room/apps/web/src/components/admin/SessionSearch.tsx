@@ -0,0 +1,210 @@
+import Link from "next/link";
+
+import type { HighlightedText, SearchSessionsResponse } from "@marins-room/shared";
+
+// The form's raw values, as they appear in the dashboard URL
+export interface SessionSearchFilters {
+  q?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  visitorName?: string;
+  hasAdminReply?: string;
+  tags?: string;
+  page?: string;
+}
+
+const inputClass =
+  "w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+function Snippet({ parts }: { parts: HighlightedText }) {
+  return (
+    <p className="text-sm text-gray-600 mb-1">
+      {parts.map((part, i) =>
+        part.highlight ? (
+          <mark key={i} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function pageHref(filters: SessionSearchFilters, page: number) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) query.set(key, value);
+  }
+  query.set("page", String(page));
+  return `/admin?${query}`;
+}
+
+/**
+ * Search box for chat sessions. A plain GET form to the dashboard, which
+ * runs the search server-side with the admin key and passes the results
+ * back in; results are null until something is searched for.
+ */
+export function SessionSearch({
+  filters,
+  results,
+  pageSize,
+}: {
+  filters: SessionSearchFilters;
+  results: SearchSessionsResponse | null;
+  pageSize: number;
+}) {
+  const page = Number(filters.page) || 1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Search Chats</h2>
+
+      <form action="/admin" method="get" className="space-y-3" role="search">
+        <input
+          type="search"
+          name="q"
+          defaultValue={filters.q}
+          placeholder="Search messages..."
+          aria-label="Search messages"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          name="visitorName"
+          defaultValue={filters.visitorName}
+          placeholder="Visitor name"
+          aria-label="Visitor name"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          name="tags"
+          defaultValue={filters.tags}
+          placeholder="Tags, comma-separated"
+          aria-label="Tags"
+          className={inputClass}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            name="status"
+            defaultValue={filters.status ?? ""}
+            aria-label="Status"
+            className={inputClass}
+          >
+            <option value="">Any status</option>
+            <option value="ACTIVE">Active</option>
+            <option value="CLOSED">Closed</option>
+          </select>
+          <select
+            name="hasAdminReply"
+            defaultValue={filters.hasAdminReply ?? ""}
+            aria-label="Marin replied"
+            className={inputClass}
+          >
+            <option value="">Any replies</option>
+            <option value="true">Marin replied</option>
+            <option value="false">No reply from Marin</option>
+          </select>
+          <label className="text-xs text-gray-500">
+            Started from
+            <input type="date" name="from" defaultValue={filters.from} className={inputClass} />
+          </label>
+          <label className="text-xs text-gray-500">
+            Started until
+            <input type="date" name="to" defaultValue={filters.to} className={inputClass} />
+          </label>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Search
+          </button>
+          {results && (
+            <Link href="/admin" className="text-sm text-gray-500 hover:text-gray-700">
+              Clear
+            </Link>
+          )}
+        </div>
+      </form>
+
+      {results && (
+        <div className="mt-6">
+          <p className="text-sm text-gray-500 mb-3">
+            {results.total} {results.total === 1 ? "session" : "sessions"} found
+          </p>
+          <div className="space-y-3">
+            {results.sessions.map((session) => (
+              <Link
+                key={session.id}
+                href={`/admin/sessions/${session.id}`}
+                className="block p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-900">
+                    {session.visitorName || "Anonymous"}
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${
+                      session.status === "ACTIVE"
+                        ? "bg-green-100 text-green-700"
+                        : "bg-gray-200 text-gray-600"
+                    }`}
+                  >
+                    {session.status}
+                  </span>
+                </div>
+                {session.match ? (
+                  <Snippet parts={session.match.snippet} />
+                ) : (
+                  session.lastMessage && (
+                    <p className="text-sm text-gray-600 truncate mb-1">
+                      {session.lastMessage.content}
+                    </p>
+                  )
+                )}
+                {session.tags && session.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-1">
+                    {session.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-700"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {session.messageCount} messages • started{" "}
+                  {new Date(session.createdAt).toLocaleString()}
+                </div>
+              </Link>
+            ))}
+          </div>
+
+          {(page > 1 || page * pageSize < results.total) && (
+            <div className="mt-4 flex justify-between text-sm">
+              {page > 1 ? (
+                <Link href={pageHref(filters, page - 1)} className="text-primary-600">
+                  Previous
+                </Link>
+              ) : (
+                <span />
+              )}
+              {page * pageSize < results.total && (
+                <Link href={pageHref(filters, page + 1)} className="text-primary-600">
+                  Next
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
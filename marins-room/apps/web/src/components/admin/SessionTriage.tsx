@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type {
+  ApiClient,
+  ChatSession,
+  ChatSessionNote,
+  ChatSessionPriority,
+  ChatTagCount,
+} from "@marins-room/shared";
+
+export const PRIORITY_LABELS: Record<ChatSessionPriority, string> = {
+  LOW: "Low",
+  NORMAL: "Normal",
+  HIGH: "High",
+  URGENT: "Urgent",
+};
+
+export const PRIORITY_STYLES: Record<ChatSessionPriority, string> = {
+  LOW: "bg-gray-100 text-gray-600",
+  NORMAL: "bg-blue-50 text-blue-700",
+  HIGH: "bg-orange-100 text-orange-800",
+  URGENT: "bg-red-100 text-red-700",
+};
+
+/**
+ * Marin's triage tools for one session: priority, tags and private notes.
+ * None of it is ever shown to the visitor or sent to the AI.
+ */
+export function SessionTriage({
+  api,
+  session,
+  onSessionChange,
+}: {
+  api: ApiClient;
+  session: ChatSession;
+  onSessionChange: (session: ChatSession) => void;
+}) {
+  const [notes, setNotes] = useState<ChatSessionNote[]>([]);
+  const [knownTags, setKnownTags] = useState<ChatTagCount[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const tags = session.tags ?? [];
+
+  useEffect(() => {
+    api.listSessionNotes(session.id).then((res) => {
+      if (res.success && res.data) setNotes(res.data);
+    });
+    api.listChatTags().then((res) => {
+      if (res.success && res.data) setKnownTags(res.data);
+    });
+  }, [api, session.id]);
+
+  const update = async (changes: { tags?: string[]; priority?: ChatSessionPriority }) => {
+    setError(null);
+    const res = await api.updateChatSession(session.id, changes);
+    if (res.success && res.data) {
+      onSessionChange(res.data);
+    } else {
+      setError(res.error?.message || "Failed to update session");
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = tagInput.trim().toLowerCase();
+    if (!tag || tags.includes(tag)) return;
+
+    update({ tags: [...tags, tag] });
+    setTagInput("");
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteInput.trim()) return;
+
+    setError(null);
+    const res = await api.addSessionNote(session.id, noteInput.trim());
+    if (res.success && res.data) {
+      setNotes((prev) => [...prev, res.data!]);
+      setNoteInput("");
+    } else {
+      setError(res.error?.message || "Failed to save note");
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    const res = await api.deleteSessionNote(session.id, noteId);
+    if (res.success) {
+      setNotes((prev) => prev.filter((note) => note.id !== noteId));
+    } else {
+      setError(res.error?.message || "Failed to delete note");
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-100 space-y-4">
+      {error && (
+        <div role="alert" className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="session-priority" className="text-sm text-gray-500">
+          Priority
+        </label>
+        <select
+          id="session-priority"
+          value={session.priority ?? "NORMAL"}
+          onChange={(e) => update({ priority: e.target.value as ChatSessionPriority })}
+          className={`px-2 py-1 text-sm rounded-lg border border-gray-200 ${
+            PRIORITY_STYLES[session.priority ?? "NORMAL"]
+          }`}
+        >
+          {Object.entries(PRIORITY_LABELS).map(([priority, label]) => (
+            <option key={priority} value={priority}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <span className="ml-2 text-sm text-gray-500">Tags</span>
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700"
+          >
+            {tag}
+            <button
+              onClick={() => update({ tags: tags.filter((t) => t !== tag) })}
+              className="text-gray-400 hover:text-gray-700"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddTag}>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            list="known-tags"
+            placeholder="Add tag"
+            aria-label="Add tag"
+            maxLength={32}
+            className="w-28 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <datalist id="known-tags">
+            {knownTags
+              .filter(({ tag }) => !tags.includes(tag))
+              .map(({ tag }) => (
+                <option key={tag} value={tag} />
+              ))}
+          </datalist>
+        </form>
+      </div>
+
+      <div>
+        <h2 className="text-sm font-medium text-gray-700 mb-2">
+          Private notes <span className="font-normal text-gray-400">(only you can see these)</span>
+        </h2>
+        {notes.length > 0 && (
+          <ul className="space-y-2 mb-2">
+            {notes.map((note) => (
+              <li
+                key={note.id}
+                className="flex items-start justify-between gap-3 p-2 bg-yellow-50 border border-yellow-100 rounded-lg text-sm"
+              >
+                <div>
+                  <p className="text-gray-800 whitespace-pre-wrap">{note.content}</p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(note.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteNote(note.id)}
+                  className="text-xs text-gray-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddNote} className="flex gap-2">
+          <input
+            type="text"
+            value={noteInput}
+            onChange={(e) => setNoteInput(e.target.value)}
+            placeholder="Add a note..."
+            aria-label="Add a note"
+            maxLength={5000}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            type="submit"
+            disabled={!noteInput.trim()}
+            className="px-3 py-1.5 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
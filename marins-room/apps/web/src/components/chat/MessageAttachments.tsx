@@ -0,0 +1,43 @@
+import type { ChatAttachment } from "@marins-room/shared";
+
+import { formatFileSize } from "@/lib/attachments";
+
+/**
+ * Files sent with a chat message: images as thumbnails, anything else as a
+ * download link. Both open the file in a new tab.
+ */
+export function MessageAttachments({ attachments }: { attachments?: ChatAttachment[] }) {
+  if (!attachments || attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 flex flex-wrap gap-2" aria-label="Attachments">
+      {attachments.map((attachment) => (
+        <li key={attachment.id}>
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.fileName}
+            className="block"
+          >
+            {attachment.mimeType.startsWith("image/") ? (
+              <img
+                src={attachment.url}
+                alt={attachment.fileName}
+                loading="lazy"
+                className="h-24 max-w-[12rem] object-cover rounded-lg border border-black/10"
+              />
+            ) : (
+              <span className="flex items-center gap-1 px-3 py-2 text-xs rounded-lg border border-black/10 underline hover:no-underline">
+                📎 {attachment.fileName}{" "}
+                <span className="opacity-70">({formatFileSize(attachment.fileSizeBytes)})</span>
+              </span>
+            )}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
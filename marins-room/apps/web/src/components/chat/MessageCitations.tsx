@@ -0,0 +1,28 @@
+import Link from "next/link";
+
+import type { ChatCitation } from "@marins-room/shared";
+
+function citationHref(citation: ChatCitation) {
+  return citation.sourceType === "BLOG_POST"
+    ? `/blog/${citation.sourceId}`
+    : `/videos/${citation.sourceId}`;
+}
+
+export function MessageCitations({ citations }: { citations?: ChatCitation[] | null }) {
+  if (!citations || citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 pt-2 border-t border-black/10 space-y-1" aria-label="Sources">
+      {citations.map((citation) => (
+        <li key={`${citation.sourceType}-${citation.sourceId}`} className="text-xs">
+          <span className="opacity-70">[{citation.index}]</span>{" "}
+          <Link href={citationHref(citation)} className="underline hover:no-underline">
+            {citation.sourceType === "BLOG_POST" ? "Blog" : "Video"}: {citation.title}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
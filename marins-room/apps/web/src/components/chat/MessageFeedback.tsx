@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ChatFeedback, FeedbackRating } from "@marins-room/shared";
+
+import { clientApi } from "@/lib/api";
+
+/**
+ * Thumbs up/down under an AI reply. Clicking the current rating again
+ * takes it back; a thumbs down asks what went wrong.
+ */
+export function MessageFeedback({
+  messageId,
+  feedback,
+}: {
+  messageId: string;
+  feedback?: ChatFeedback | null;
+}) {
+  const [rating, setRating] = useState<FeedbackRating | null>(feedback?.rating ?? null);
+  const [comment, setComment] = useState(feedback?.comment ?? "");
+  const [isAskingWhy, setIsAskingWhy] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: FeedbackRating | null, nextComment?: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    const response = next
+      ? await clientApi.rateMessage(messageId, { rating: next, comment: nextComment })
+      : await clientApi.clearMessageRating(messageId);
+
+    setIsSaving(false);
+    if (!response.success) {
+      setError(response.error?.message || "Couldn't save your rating");
+      return false;
+    }
+    setRating(next);
+    return true;
+  };
+
+  const handleRate = async (next: FeedbackRating) => {
+    if (next === rating) {
+      if (await save(null)) {
+        setComment("");
+        setIsAskingWhy(false);
+      }
+      return;
+    }
+    if (await save(next)) {
+      setIsAskingWhy(next === "DOWN");
+    }
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await save("DOWN", comment)) {
+      setIsAskingWhy(false);
+    }
+  };
+
+  const buttonClass = (value: FeedbackRating) =>
+    `px-1.5 rounded hover:bg-black/5 disabled:opacity-50 ${
+      rating === value ? "opacity-100" : "opacity-40 hover:opacity-100"
+    }`;
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => handleRate("UP")}
+          disabled={isSaving}
+          aria-pressed={rating === "UP"}
+          aria-label="Helpful"
+          className={buttonClass("UP")}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          onClick={() => handleRate("DOWN")}
+          disabled={isSaving}
+          aria-pressed={rating === "DOWN"}
+          aria-label="Not helpful"
+          className={buttonClass("DOWN")}
+        >
+          👎
+        </button>
+        {rating && !isAskingWhy && <span className="opacity-60">Thanks for the feedback</span>}
+      </div>
+
+      {isAskingWhy && (
+        <form onSubmit={handleComment} className="mt-2 flex gap-2">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What was wrong? (optional)"
+            maxLength={1000}
+            className="flex-1 px-2 py-1 border border-gray-200 rounded bg-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { ChatToolCall } from "@marins-room/shared";
+
+function formatArguments(args: Record<string, unknown>) {
+  return Object.entries(args)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+}
+
+/**
+ * Admin-only trace of the tools the assistant ran before replying, with
+ * the raw result of each call expandable underneath.
+ */
+export function MessageToolCalls({ toolCalls }: { toolCalls?: ChatToolCall[] }) {
+  if (!toolCalls || toolCalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-2 pb-2 border-b border-white/20 space-y-1" aria-label="Tool calls">
+      {toolCalls.map((call) => (
+        <details key={call.id} className="text-xs">
+          <summary className="cursor-pointer opacity-80">
+            Ran <code>{call.name}</code>({formatArguments(call.arguments)})
+            {call.error && <span className="ml-1 font-semibold">failed: {call.error}</span>}
+          </summary>
+          {!call.error && (
+            <pre className="mt-1 p-2 rounded bg-black/20 overflow-x-auto whitespace-pre-wrap">
+              {JSON.stringify(call.result, null, 2)}
+            </pre>
+          )}
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { ApiResponse } from "@marins-room/shared";
+import { redirect } from "next/navigation";
+
+/**
+ * The API's `to` for an "until" date picked in an admin filter form. The
+ * form's date is inclusive and the API's `to` isn't, so this is the start
+ * of the following day (UTC).
+ */
+export function untilToExclusive(until: string | undefined): Date | undefined {
+  if (!until) return undefined;
+
+  const end = new Date(until);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end;
+}
+
+/**
+ * Loads the data a server-rendered admin page is built on. The request
+ * must be admin-only, so it doubles as the auth check: without the admin
+ * key the visitor is sent back to the home page.
+ */
+export async function loadAdminData<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const res = await request;
+  if (!res.success || !res.data) {
+    redirect("/");
+  }
+  return res.data;
+}
@@ -0,0 +1,37 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { adminClientApi } from "@/lib/api";
+
+/**
+ * Asks Marin for the admin API key. Returns null if they cancel.
+ *
+ * A browser prompt keeps the key out of the page's code and storage; in
+ * production, use proper auth instead.
+ */
+export function promptAdminKey(): string | null {
+  return window.prompt("Enter admin API key:") || null;
+}
+
+/**
+ * useAdminKey - The admin key for a client-side admin page
+ *
+ * Asks for the key once when the page opens and returns it with an API
+ * client that sends it (both null until entered). If Marin cancels,
+ * `onMissing` gets the error to show.
+ */
+export function useAdminKey(onMissing: (error: string) => void) {
+  const [adminKey, setAdminKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const key = promptAdminKey();
+    if (key) {
+      setAdminKey(key);
+    } else {
+      onMissing("Admin key required");
+    }
+  }, [onMissing]);
+
+  const api = useMemo(() => (adminKey ? adminClientApi(adminKey) : null), [adminKey]);
+
+  return { adminKey, api };
+}
@@ -14,4 +14,12 @@ export const clientApi = createApiClient({
   baseUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000",
 });
 
+// Client-side client for admin pages, with the key Marin entered
+export function adminClientApi(adminApiKey: string) {
+  return createApiClient({
+    baseUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000",
+    adminApiKey,
+  });
+}
+
 export const wsUrl = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:4000/ws/chat";
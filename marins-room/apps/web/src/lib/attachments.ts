@@ -0,0 +1,60 @@
+import {
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_MIME_TYPES,
+  type ApiClient,
+  type ChatAttachment,
+} from "@marins-room/shared";
+
+export { MAX_ATTACHMENTS_PER_MESSAGE } from "@marins-room/shared";
+
+// For the file picker's `accept`
+export const ATTACHMENT_ACCEPT = ATTACHMENT_MIME_TYPES.join(",");
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Uploads a file for a chat session: asks the API for a presigned URL,
+ * then PUTs the file straight to storage. Returns the attachment to send
+ * with the next message, or an error message.
+ */
+export async function uploadAttachment(
+  api: ApiClient,
+  sessionId: string,
+  file: File
+): Promise<{ attachment: ChatAttachment } | { error: string }> {
+  // Checked by the API too; this just saves a round trip
+  if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+    return { error: "You can attach images, PDFs and text files" };
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return { error: `Files can be up to ${formatFileSize(ATTACHMENT_MAX_BYTES)}` };
+  }
+
+  const result = await api.createAttachment(sessionId, {
+    fileName: file.name,
+    mimeType: file.type,
+    fileSizeBytes: file.size,
+  });
+  if (!result.success || !result.data) {
+    return { error: result.error?.message || "Failed to upload file" };
+  }
+
+  try {
+    const response = await fetch(result.data.uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Type": file.type },
+      body: file,
+    });
+    if (!response.ok) {
+      return { error: "Failed to upload file" };
+    }
+  } catch {
+    return { error: "Failed to upload file" };
+  }
+
+  return { attachment: result.data.attachment };
+}
@@ -0,0 +1,33 @@
+import type { ApiClient, TranscriptFormat } from "@marins-room/shared";
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string; extension: string }[] =
+  [
+    { format: "markdown", label: "Markdown", extension: "md" },
+    { format: "json", label: "JSON", extension: "json" },
+    { format: "html", label: "HTML", extension: "html" },
+  ];
+
+/**
+ * Fetches a transcript and saves it through a temporary link. Returns an
+ * error message when the export fails.
+ */
+export async function downloadTranscript(
+  api: ApiClient,
+  sessionId: string,
+  format: TranscriptFormat
+): Promise<string | null> {
+  const result = await api.exportTranscript(sessionId, format);
+  if (!result.success || !result.data) {
+    return result.error?.message || "Failed to export transcript";
+  }
+
+  const { extension } = TRANSCRIPT_FORMATS.find((f) => f.format === format)!;
+  const url = URL.createObjectURL(result.data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `chat-${sessionId.slice(0, 8)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return null;
+}
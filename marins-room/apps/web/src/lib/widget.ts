@@ -0,0 +1,431 @@
+import type {
+  ApiResponse,
+  ChatMessage,
+  StartChatSessionResponse,
+  WsAIResponseChunkPayload,
+  WsAIResponseCompletePayload,
+  WsErrorPayload,
+  WsMessage,
+  WsSessionJoinedPayload,
+} from "@marins-room/shared";
+
+export interface WidgetDefaults {
+  apiUrl: string;
+  wsUrl: string;
+}
+
+/**
+ * The embeddable chat widget: a floating button that opens the chat in a
+ * panel on any page. Served as /widget.js (see app/widget.js/route.ts) and
+ * configured by attributes on its script tag:
+ *
+ *   data-title         Panel heading ("Chat with us")
+ *   data-position      "right" (default) or "left"
+ *   data-color         Button and accent colour
+ *   data-open          "true" to open the panel on page load
+ *   data-visitor-name  Name shown to Marin for chats started here
+ *   data-api-url, data-ws-url  Override the URLs the route fills in
+ *
+ * The route sends this function's source text, so everything it uses must
+ * live inside it: type imports only, nothing from module scope, and no
+ * object spread (compiled to a module-level helper for older targets).
+ */
+export function chatWidget(defaults: WidgetDefaults) {
+  const script = document.currentScript as HTMLScriptElement | null;
+  const config: DOMStringMap = script?.dataset ?? {};
+  const apiUrl = config.apiUrl || defaults.apiUrl;
+  const wsUrl = config.wsUrl || defaults.wsUrl;
+  const title = config.title || "Chat with us";
+  const color = config.color || "#0284c7";
+  const side = config.position === "left" ? "left" : "right";
+
+  // Loaded twice (e.g. by a tag manager); one widget is enough
+  const flagged = window as Window & { __marinsRoomWidget?: boolean };
+  if (flagged.__marinsRoomWidget) return;
+  flagged.__marinsRoomWidget = true;
+
+  // Reconnect delays double from 1s up to 30s, as on the chat page
+  const RECONNECT_BASE_MS = 1000;
+  const RECONNECT_MAX_MS = 30000;
+  const STORAGE_KEY = "marins-room-chat";
+
+  interface StoredChat {
+    sessionId: string | null;
+    // Proves the visitor's identity, since our cookie doesn't reach this site
+    visitorToken: string | null;
+  }
+
+  interface PendingMessage {
+    clientMessageId: string;
+    content: string;
+  }
+
+  // localStorage can be unavailable (privacy modes); the chat then lasts
+  // until the page is left
+  const load = (): StoredChat => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as Partial<StoredChat>;
+      return { sessionId: stored.sessionId ?? null, visitorToken: stored.visitorToken ?? null };
+    } catch {
+      return { sessionId: null, visitorToken: null };
+    }
+  };
+  const chat = load();
+  const save = () => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(chat));
+    } catch {
+      // Not stored; see load()
+    }
+  };
+
+  let ws: WebSocket | null = null;
+  let lastSeq: number | null = null;
+  let messages: ChatMessage[] = [];
+  let pending: PendingMessage[] = [];
+  let streaming: { streamId: string; content: string } | null = null;
+  let isTyping = false;
+  let isClosed = false;
+  let isStarting = false;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let error: string | null = null;
+
+  // ---- Markup, kept apart from the host page's styles ----
+
+  const host = document.createElement("div");
+  const root = host.attachShadow({ mode: "open" });
+  root.innerHTML = `
+    <style>
+      :host { all: initial; }
+      * { box-sizing: border-box; font-family: system-ui, -apple-system, sans-serif; }
+      .launcher, .panel { position: fixed; ${side}: 20px; z-index: 2147483000; }
+      .launcher {
+        bottom: 20px; width: 56px; height: 56px; border: 0; border-radius: 50%;
+        background: var(--color); color: #fff; cursor: pointer;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+        display: flex; align-items: center; justify-content: center;
+      }
+      .panel {
+        bottom: 88px; width: 360px; height: 520px;
+        max-width: calc(100vw - 40px); max-height: calc(100vh - 108px);
+        background: #fff; border-radius: 12px; overflow: hidden;
+        box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+        display: flex; flex-direction: column;
+      }
+      [hidden] { display: none !important; }
+      header {
+        background: var(--color); color: #fff; padding: 12px 16px;
+        font-size: 15px; font-weight: 600;
+        display: flex; align-items: center; justify-content: space-between;
+      }
+      header button { background: none; border: 0; color: #fff; font-size: 20px; cursor: pointer; }
+      .messages { flex: 1; overflow-y: auto; padding: 12px; background: #f9fafb; }
+      .message {
+        max-width: 80%; margin: 0 0 8px; padding: 8px 12px; border-radius: 12px;
+        font-size: 14px; line-height: 1.4; white-space: pre-wrap; overflow-wrap: break-word;
+        background: #fff; color: #111827; border: 1px solid #f3f4f6;
+      }
+      .message.user { margin-left: auto; background: var(--color); color: #fff; border: 0; }
+      .message.pending { opacity: 0.6; }
+      .message.system {
+        max-width: none; text-align: center; background: none; border: 0;
+        color: #6b7280; font-size: 12px;
+      }
+      .status { padding: 0 12px 8px; font-size: 12px; color: #6b7280; background: #f9fafb; }
+      .status.error { color: #b91c1c; }
+      form { display: flex; gap: 8px; padding: 12px; border-top: 1px solid #e5e7eb; }
+      input {
+        flex: 1; min-width: 0; padding: 8px 12px; font-size: 14px;
+        border: 1px solid #e5e7eb; border-radius: 8px;
+      }
+      form button, .new-chat {
+        padding: 8px 14px; font-size: 14px; border: 0; border-radius: 8px;
+        background: var(--color); color: #fff; cursor: pointer;
+      }
+      form button:disabled { opacity: 0.5; cursor: default; }
+      .new-chat { margin: 12px; }
+    </style>
+    <section class="panel" role="dialog" hidden>
+      <header>
+        <span class="title"></span>
+        <button type="button" class="close" aria-label="Close chat">×</button>
+      </header>
+      <div class="messages" aria-live="polite"></div>
+      <div class="status"></div>
+      <form>
+        <input type="text" maxlength="2000" placeholder="Type your message..." aria-label="Message" />
+        <button type="submit">Send</button>
+      </form>
+      <button type="button" class="new-chat" hidden>Start new chat</button>
+    </section>
+    <button type="button" class="launcher" aria-label="Open chat">
+      <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+      </svg>
+    </button>
+  `;
+  host.style.setProperty("--color", color);
+
+  const panel = root.querySelector(".panel") as HTMLElement;
+  const list = root.querySelector(".messages") as HTMLElement;
+  const status = root.querySelector(".status") as HTMLElement;
+  const form = root.querySelector("form") as HTMLFormElement;
+  const input = root.querySelector("input") as HTMLInputElement;
+  const sendButton = root.querySelector("form button") as HTMLButtonElement;
+  const newChatButton = root.querySelector(".new-chat") as HTMLButtonElement;
+  (root.querySelector(".title") as HTMLElement).textContent = title;
+  panel.setAttribute("aria-label", title);
+
+  // Message text only ever goes in through textContent
+  const bubble = (className: string, text: string) => {
+    const element = document.createElement("p");
+    element.className = `message ${className}`;
+    element.textContent = text;
+    return element;
+  };
+
+  const render = () => {
+    list.replaceChildren(
+      ...messages.map((message) =>
+        bubble(message.role.toLowerCase(), message.content || "(attachment)")
+      ),
+      ...pending.map((message) => bubble("user pending", message.content)),
+      ...(streaming ? [bubble("assistant", streaming.content)] : [])
+    );
+    list.scrollTop = list.scrollHeight;
+
+    const connected = ws?.readyState === WebSocket.OPEN;
+    status.className = error ? "status error" : "status";
+    status.textContent =
+      error ??
+      (isClosed
+        ? "This chat has ended."
+        : isTyping
+          ? "Typing..."
+          : chat.sessionId && !connected
+            ? "Connecting..."
+            : "");
+    form.hidden = isClosed;
+    newChatButton.hidden = !isClosed;
+    sendButton.disabled = !connected;
+  };
+
+  // ---- Talking to the API ----
+
+  const startSession = async () => {
+    isStarting = true;
+    error = null;
+    render();
+
+    // A returning visitor keeps their visitor id
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (chat.visitorToken) headers["X-Visitor-Token"] = chat.visitorToken;
+
+    try {
+      const res = await fetch(`${apiUrl}/chat/sessions`, {
+        method: "POST",
+        credentials: "include",
+        headers,
+        body: JSON.stringify(config.visitorName ? { visitorName: config.visitorName } : {}),
+      });
+      const body = (await res.json()) as ApiResponse<StartChatSessionResponse>;
+      if (!body.success || !body.data) {
+        error = body.error?.message || "Failed to start chat session";
+        return;
+      }
+
+      chat.sessionId = body.data.sessionId;
+      // Only sent when the cookie won't work here
+      chat.visitorToken = body.data.visitorToken ?? chat.visitorToken;
+      save();
+      connect();
+    } catch {
+      error = "Failed to connect. Please try again.";
+    } finally {
+      isStarting = false;
+      render();
+    }
+  };
+
+  const send = (type: WsMessage["type"], payload: unknown) => {
+    ws?.send(JSON.stringify({ type, payload }));
+  };
+
+  const append = (message: ChatMessage) => {
+    if (!messages.some((m) => m.id === message.id)) {
+      messages = [...messages, message];
+    }
+    pending = pending.filter((p) => p.clientMessageId !== message.clientMessageId);
+  };
+
+  const connect = () => {
+    const sessionId = chat.sessionId;
+    if (!sessionId) return;
+
+    const socket = new WebSocket(wsUrl);
+    ws = socket;
+
+    socket.onopen = () => {
+      reconnectAttempt = 0;
+      send("JOIN_SESSION", {
+        sessionId,
+        lastSeq: lastSeq ?? undefined,
+        visitorToken: chat.visitorToken ?? undefined,
+      });
+      render();
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as WsMessage;
+
+      if (message.seq !== undefined) {
+        // Already seen, e.g. delivered live just before a reconnect
+        if (lastSeq !== null && message.seq <= lastSeq) return;
+        lastSeq = message.seq;
+      }
+
+      switch (message.type) {
+        case "SESSION_JOINED": {
+          const joined = message.payload as WsSessionJoinedPayload;
+          lastSeq = joined.seq;
+          messages = joined.messages;
+          isClosed = joined.session.status === "CLOSED";
+          const saved = new Set(messages.map((m) => m.clientMessageId));
+          pending = pending.filter((p) => !saved.has(p.clientMessageId));
+          pending.forEach((p) => send("SEND_MESSAGE", p));
+          break;
+        }
+        case "SESSION_RESUMED":
+          // Missed events follow, each with its own seq
+          pending.forEach((p) => send("SEND_MESSAGE", p));
+          break;
+        case "MESSAGE_RECEIVED":
+        case "AI_RESPONSE":
+          append((message.payload as { message: ChatMessage }).message);
+          isTyping = false;
+          break;
+        case "AI_RESPONSE_CHUNK": {
+          const { streamId, delta } = message.payload as WsAIResponseChunkPayload;
+          isTyping = false;
+          streaming =
+            streaming?.streamId === streamId
+              ? { streamId, content: streaming.content + delta }
+              : { streamId, content: delta };
+          break;
+        }
+        case "AI_RESPONSE_COMPLETE": {
+          const complete = message.payload as WsAIResponseCompletePayload;
+          if (complete.message) append(complete.message);
+          if (streaming?.streamId === complete.streamId) streaming = null;
+          break;
+        }
+        case "TYPING_START":
+          isTyping = true;
+          break;
+        case "TYPING_STOP":
+          isTyping = false;
+          break;
+        case "SESSION_CLOSED":
+          isClosed = true;
+          isTyping = false;
+          streaming = null;
+          pending = [];
+          break;
+        case "ERROR": {
+          const { code, message: text, clientMessageId } = message.payload as WsErrorPayload;
+          if (clientMessageId) {
+            pending = pending.filter((p) => p.clientMessageId !== clientMessageId);
+          }
+          if (code === "SESSION_CLOSED") {
+            isClosed = true;
+          } else if (code === "SESSION_NOT_FOUND" || code === "FORBIDDEN") {
+            // The stored chat is gone or no longer ours; offer a fresh one
+            chat.sessionId = null;
+            save();
+            isClosed = true;
+          } else {
+            error = text;
+          }
+          break;
+        }
+      }
+      render();
+    };
+
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      isTyping = false;
+      // An interrupted stream is replaced by its replayed AI_RESPONSE_COMPLETE
+      streaming = null;
+      render();
+      if (!chat.sessionId || isClosed) return;
+
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** reconnectAttempt, RECONNECT_MAX_MS);
+      reconnectAttempt += 1;
+      reconnectTimer = setTimeout(connect, delay + Math.random() * 500);
+    };
+  };
+
+  // Leaves the finished chat (without reconnecting to it) and starts over
+  const startNewChat = () => {
+    clearTimeout(reconnectTimer);
+    const socket = ws;
+    ws = null;
+    socket?.close();
+
+    chat.sessionId = null;
+    save();
+    lastSeq = null;
+    messages = [];
+    pending = [];
+    streaming = null;
+    isTyping = false;
+    isClosed = false;
+    reconnectAttempt = 0;
+    startSession();
+  };
+
+  // ---- Wiring ----
+
+  const setOpen = (open: boolean) => {
+    panel.hidden = !open;
+    // The chat only starts once someone opens it, not on every page view
+    if (open && !chat.sessionId && !isStarting && !isClosed) startSession();
+    if (open) input.focus();
+    render();
+  };
+
+  (root.querySelector(".launcher") as HTMLElement).addEventListener("click", () =>
+    setOpen(panel.hidden)
+  );
+  (root.querySelector(".close") as HTMLElement).addEventListener("click", () => setOpen(false));
+  newChatButton.addEventListener("click", startNewChat);
+
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();
+    const content = input.value.trim();
+    if (!content || ws?.readyState !== WebSocket.OPEN) return;
+
+    // Kept until the server echoes it back; sent again after a reconnect
+    const message = { clientMessageId: crypto.randomUUID(), content };
+    pending = [...pending, message];
+    send("SEND_MESSAGE", message);
+    input.value = "";
+    error = null;
+    render();
+  });
+
+  const mount = () => {
+    document.body.appendChild(host);
+    // Pick up a chat from an earlier page on this site
+    if (chat.sessionId) connect();
+    setOpen(config.open === "true");
+  };
+
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener("DOMContentLoaded", mount);
+  }
+}
@@ -1,5 +1,7 @@
 import "dotenv/config";
 
+import { createApiClient } from "@marins-room/shared";
+import { PrismaClient } from "@prisma/client";
 import { Queue, Worker } from "bullmq";
 import Redis from "ioredis";
 import pino from "pino";
@@ -18,6 +20,19 @@ const logger = pino({
 const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
 const connection = new Redis(redisUrl, { maxRetriesPerRequest: null });
 
+const prisma = new PrismaClient();
+
+// Sessions are closed through the API, which tells connected visitors
+const api = createApiClient({
+  baseUrl: process.env.API_URL || "http://localhost:4000",
+  adminApiKey: process.env.ADMIN_API_KEY,
+});
+
+// Chats with no messages for this long are closed
+const chatIdleCloseMinutes = Number(process.env.CHAT_IDLE_CLOSE_MINUTES) || 30;
+// How often to look for them
+const chatIdleCheckMinutes = Number(process.env.CHAT_IDLE_CHECK_MINUTES) || 5;
+
 // ============================================
 // Job Queues
 // ============================================
@@ -44,6 +59,15 @@ export const emailQueue = new Queue("email", {
   },
 });
 
+// Repeatable jobs only; a failed run is simply retried by the next one
+export const chatMaintenanceQueue = new Queue("chat-maintenance", {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 100,
+  },
+});
+
 // ============================================
 // Video Processing Worker
 // ============================================
@@ -154,12 +178,86 @@ emailWorker.on("failed", (job, err) => {
   logger.error({ jobId: job?.id, error: err.message }, "Email job failed");
 });
 
+// ============================================
+// Chat Maintenance Worker
+// ============================================
+
+const chatMaintenanceWorker = new Worker(
+  "chat-maintenance",
+  async (job) => {
+    switch (job.name) {
+      case "close-idle-sessions":
+        await handleCloseIdleSessions();
+        break;
+      default:
+        logger.warn({ jobName: job.name }, "Unknown chat maintenance job type");
+    }
+  },
+  { connection }
+);
+
+async function handleCloseIdleSessions() {
+  const cutoff = new Date(Date.now() - chatIdleCloseMinutes * 60 * 1000);
+
+  // Active sessions started before the cutoff with no messages since
+  const quietSessions = await prisma.chatSession.findMany({
+    where: {
+      status: "ACTIVE",
+      createdAt: { lt: cutoff },
+      messages: { none: { createdAt: { gte: cutoff } } },
+    },
+    select: {
+      id: true,
+      mode: true,
+      // Latest reply or visitor message; SYSTEM notices aren't replies
+      messages: {
+        where: { role: { not: "SYSTEM" } },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { role: true },
+      },
+    },
+  });
+
+  // A visitor waiting on Marin isn't idle, however long Marin takes
+  const idleSessions = quietSessions.filter(
+    (session) => !(session.mode === "HUMAN" && session.messages[0]?.role === "USER")
+  );
+
+  let closed = 0;
+  for (const { id } of idleSessions) {
+    const response = await api.closeSession(id, "IDLE");
+    if (response.success) {
+      closed += 1;
+    } else {
+      logger.error({ sessionId: id, error: response.error }, "Failed to close idle chat session");
+    }
+  }
+
+  if (idleSessions.length > 0) {
+    logger.info({ closed, idle: idleSessions.length }, "Closed idle chat sessions");
+  }
+}
+
+chatMaintenanceWorker.on("failed", (job, err) => {
+  logger.error({ jobId: job?.id, error: err.message }, "Chat maintenance job failed");
+});
+
 // ============================================
 // Startup
 // ============================================
 
+await chatMaintenanceQueue.upsertJobScheduler(
+  "close-idle-sessions",
+  { every: chatIdleCheckMinutes * 60 * 1000 },
+  { name: "close-idle-sessions" }
+);
+
 logger.info("Worker started");
-logger.info("Listening for jobs on queues: video-processing, email");
+logger.info("Listening for jobs on queues: video-processing, email, chat-maintenance");
+logger.info(
+  `Closing chat sessions idle for ${chatIdleCloseMinutes} minutes (checked every ${chatIdleCheckMinutes})`
+);
 
 // Graceful shutdown
 const shutdown = async () => {
@@ -167,8 +265,11 @@ const shutdown = async () => {
 
   await videoWorker.close();
   await emailWorker.close();
+  await chatMaintenanceWorker.close();
   await videoProcessingQueue.close();
   await emailQueue.close();
+  await chatMaintenanceQueue.close();
+  await prisma.$disconnect();
   await connection.quit();
 
   logger.info("Workers shut down successfully");
@@ -52,20 +52,48 @@
 
 import type {
   ApiResponse,
+  ChatCloseReason,
+  ChatFeedback,
+  ChatIncident,
+  ChatSession,
+  ChatSessionMode,
+  ChatSessionNote,
+  ChatTagCount,
   CreateCheckoutSessionRequest,
+  CreateAttachmentRequest,
+  CreateAttachmentResponse,
   CreateCheckoutSessionResponse,
+  CreatePromptVersionRequest,
+  CreateSavedReplyRequest,
   Donation,
+  FeedbackReport,
+  FeedbackReportRequest,
   GetSessionMessagesResponse,
   GetSignedUploadUrlRequest,
   GetSignedUploadUrlResponse,
   ListSessionsResponse,
   PaginatedResponse,
+  PromptVersion,
+  PromptVersionList,
+  RateMessageRequest,
+  SavedReply,
+  SearchSessionsRequest,
+  SearchSessionsResponse,
   SendMessageRequest,
   SendMessageResponse,
+  SetActivePromptsRequest,
   StartChatSessionRequest,
   StartChatSessionResponse,
+  TranscriptFormat,
+  TranslateMessageResponse,
+  UpdateChatSessionRequest,
+  UpdatePromptVersionRequest,
+  UpdateSavedReplyRequest,
   UpdateVideoStatusRequest,
+  UsageReport,
+  UsageReportRequest,
   Video,
+  VisitorSessionSummary,
 } from "../types/index.js";
 
 /**
@@ -164,6 +192,8 @@ export class ApiClient {
    *
    *   3. MAKE REQUEST
    *      - Use fetch() with the URL and options
+   *      - credentials: "include" sends the visitor token cookie to the
+   *        API (a different origin than the web app)
    *      - Wrap in try/catch for network errors
    *
    *   4. PARSE RESPONSE
@@ -206,6 +236,7 @@ export class ApiClient {
       const response = await fetch(url, {
         ...options,
         headers,
+        credentials: "include",
       });
 
       // Parse the JSON response body
@@ -440,6 +471,51 @@ export class ApiClient {
     });
   }
 
+  /**
+   * createAttachment() - Request permission to upload a chat attachment
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and file details (name, mimeType, size)
+   * 2. POST to /chat/sessions/{sessionId}/attachments
+   * 3. Return the attachment and a signed URL for direct upload to S3
+   *
+   * Frontend usage:
+   *   const result = await client.createAttachment(sessionId, {
+   *     fileName: file.name,
+   *     mimeType: file.type,
+   *     fileSizeBytes: file.size
+   *   });
+   *   if (result.success) {
+   *     await fetch(result.data.uploadUrl, { method: "PUT", body: file });
+   *     // Then send a message with attachmentIds: [result.data.attachment.id]
+   *   }
+   */
+  async createAttachment(
+    sessionId: string,
+    payload: CreateAttachmentRequest
+  ): Promise<ApiResponse<CreateAttachmentResponse>> {
+    return this.request<CreateAttachmentResponse>(`/chat/sessions/${sessionId}/attachments`, {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+  }
+
+  /**
+   * listMySessions() - The visitor's own past chats
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. GET /chat/sessions/mine
+   * 2. Return the visitor's sessions, most recent first
+   *
+   * The API knows the visitor by the cookie it set in startChatSession(),
+   * so this is empty until they've started a chat in this browser.
+   */
+  async listMySessions(): Promise<ApiResponse<VisitorSessionSummary[]>> {
+    return this.request<VisitorSessionSummary[]>("/chat/sessions/mine");
+  }
+
   /**
    * sendMessage() - Send a chat message (REST endpoint)
    *
@@ -479,6 +555,149 @@ export class ApiClient {
     );
   }
 
+  /**
+   * searchChatSessions() - Search and filter chat sessions (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the filters (all optional): q, status, from, to,
+   *    visitorName, hasAdminReply, page, pageSize
+   * 2. Drop the ones that aren't set and turn the rest into a query string
+   *    (dates as ISO strings, tags comma-separated)
+   * 3. GET from /chat/sessions?q=...&status=...
+   * 4. Return matching sessions; with q, each has a highlighted snippet
+   *    of its best matching message
+   *
+   * Example:
+   *   client.searchChatSessions({ q: "refund", hasAdminReply: false })
+   */
+  async searchChatSessions(
+    params: SearchSessionsRequest = {}
+  ): Promise<ApiResponse<SearchSessionsResponse>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === "") continue;
+      if (Array.isArray(value)) {
+        if (value.length > 0) query.set(key, value.join(","));
+      } else {
+        query.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    }
+
+    return this.request<SearchSessionsResponse>(`/chat/sessions?${query}`);
+  }
+
+  /**
+   * rateMessage() - Thumbs up/down an AI reply (visitor)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take message ID, rating ("UP" or "DOWN") and optional comment
+   * 2. PUT to /chat/messages/{messageId}/feedback
+   * 3. Return the saved rating (replaces any earlier one)
+   */
+  async rateMessage(
+    messageId: string,
+    payload: RateMessageRequest
+  ): Promise<ApiResponse<ChatFeedback>> {
+    return this.request<ChatFeedback>(`/chat/messages/${messageId}/feedback`, {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    });
+  }
+
+  /**
+   * clearMessageRating() - Take back a rating (visitor)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take message ID
+   * 2. DELETE /chat/messages/{messageId}/feedback
+   */
+  async clearMessageRating(messageId: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/chat/messages/${messageId}/feedback`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * translateMessage() - Translate a message for Marin (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take message ID
+   * 2. POST to /chat/messages/{messageId}/translate
+   * 3. Return the message's text in ADMIN_LANGUAGE, translated by the
+   *    configured AI provider
+   */
+  async translateMessage(messageId: string): Promise<ApiResponse<TranslateMessageResponse>> {
+    return this.request<TranslateMessageResponse>(`/chat/messages/${messageId}/translate`, {
+      method: "POST",
+    });
+  }
+
+  /**
+   * getFeedbackReport() - Satisfaction with the AI's replies (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take optional from/to dates and timeline interval ("day" or "week")
+   * 2. GET from /chat/feedback/report?from=...&to=...&interval=...
+   * 3. Return totals, the timeline, per-model counts and the worst rated
+   *    conversations
+   */
+  async getFeedbackReport(
+    params: FeedbackReportRequest = {}
+  ): Promise<ApiResponse<FeedbackReport>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === "") continue;
+      query.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+
+    return this.request<FeedbackReport>(`/chat/feedback/report?${query}`);
+  }
+
+  /**
+   * getUsageReport() - AI token usage of the chat (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take optional from/to dates and timeline interval ("day" or "week")
+   * 2. GET from /chat/usage/report?from=...&to=...&interval=...
+   * 3. Return totals, the timeline, per-model usage, the most expensive
+   *    conversations and the configured caps
+   */
+  async getUsageReport(params: UsageReportRequest = {}): Promise<ApiResponse<UsageReport>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === "") continue;
+      query.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+
+    return this.request<UsageReport>(`/chat/usage/report?${query}`);
+  }
+
+  /**
+   * listChatIncidents() - Get prompt guard incidents (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take optional page number and page size
+   * 2. GET from /chat/incidents?page=X&pageSize=Y
+   * 3. Return paginated list, newest first
+   *
+   * Note: Admin-only. Each incident is a reply the guard replaced.
+   */
+  async listChatIncidents(
+    page = 1,
+    pageSize = 20
+  ): Promise<ApiResponse<PaginatedResponse<ChatIncident>>> {
+    return this.request<PaginatedResponse<ChatIncident>>(
+      `/chat/incidents?page=${page}&pageSize=${pageSize}`
+    );
+  }
+
   /**
    * getSessionMessages() - Get all messages in a chat session
    *
@@ -492,19 +711,340 @@ export class ApiClient {
     return this.request<GetSessionMessagesResponse>(`/chat/sessions/${sessionId}/messages`);
   }
 
+  /**
+   * exportTranscript() - Download a chat transcript as a file
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and format ("markdown", "json" or "html")
+   * 2. GET from /chat/sessions/{sessionId}/export?format={format}
+   * 3. Return the file as a Blob (the body isn't JSON, so this can't
+   *    go through request())
+   * 4. Errors still come back as JSON and are returned like request() does
+   *
+   * Note: Visitors can only export their own session. With adminApiKey
+   * the export also includes moderation flags and tool calls.
+   */
+  async exportTranscript(
+    sessionId: string,
+    format: TranscriptFormat = "markdown"
+  ): Promise<ApiResponse<Blob>> {
+    const headers: Record<string, string> = {};
+    if (this.adminApiKey) {
+      headers["x-admin-api-key"] = this.adminApiKey;
+    }
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/chat/sessions/${sessionId}/export?format=${format}`,
+        { headers, credentials: "include" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || "UNKNOWN_ERROR",
+            message: data.error?.message || "An unknown error occurred",
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: await response.blob(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: "NETWORK_ERROR",
+          message: error instanceof Error ? error.message : "Network error occurred",
+        },
+      };
+    }
+  }
+
   /**
    * closeSession() - End a chat session
    *
    * PSEUDOCODE:
    * -----------
-   * 1. Take session ID
+   * 1. Take session ID and why it's being closed (defaults to "ADMIN")
    * 2. POST to /chat/sessions/{sessionId}/close
-   * 3. Session status changes to CLOSED
+   * 3. Session status changes to CLOSED, and the visitor is told
    * 4. No more messages can be sent to this session
    */
-  async closeSession(sessionId: string): Promise<ApiResponse<void>> {
+  async closeSession(
+    sessionId: string,
+    reason: ChatCloseReason = "ADMIN"
+  ): Promise<ApiResponse<void>> {
     return this.request<void>(`/chat/sessions/${sessionId}/close`, {
       method: "POST",
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  /**
+   * setSessionMode() - Take over a chat or hand it back to the AI (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and the new mode (AI, HUMAN or HYBRID)
+   * 2. POST to /chat/sessions/{sessionId}/mode
+   * 3. Connected visitors are told about the change over WebSocket
+   * 4. Return the updated session
+   */
+  async setSessionMode(
+    sessionId: string,
+    mode: ChatSessionMode
+  ): Promise<ApiResponse<ChatSession>> {
+    return this.request<ChatSession>(`/chat/sessions/${sessionId}/mode`, {
+      method: "POST",
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  /**
+   * updateChatSession() - Change a session's tags or priority (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and the changes ({ tags?, priority? })
+   * 2. PATCH to /chat/sessions/{sessionId}
+   * 3. tags replaces the whole list; the inbox is told about the change
+   * 4. Return the updated session
+   */
+  async updateChatSession(
+    sessionId: string,
+    changes: UpdateChatSessionRequest
+  ): Promise<ApiResponse<ChatSession>> {
+    return this.request<ChatSession>(`/chat/sessions/${sessionId}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  /**
+   * listChatTags() - Get every tag in use (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. GET from /chat/tags
+   * 2. Return tags with how many sessions have them, most used first
+   *    (for suggestions and filters)
+   */
+  async listChatTags(): Promise<ApiResponse<ChatTagCount[]>> {
+    return this.request<ChatTagCount[]>("/chat/tags");
+  }
+
+  /**
+   * listSessionNotes() - Get Marin's private notes on a session (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID
+   * 2. GET from /chat/sessions/{sessionId}/notes
+   * 3. Return the notes, oldest first
+   */
+  async listSessionNotes(sessionId: string): Promise<ApiResponse<ChatSessionNote[]>> {
+    return this.request<ChatSessionNote[]>(`/chat/sessions/${sessionId}/notes`);
+  }
+
+  /**
+   * addSessionNote() - Leave a private note on a session (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and the note text
+   * 2. POST to /chat/sessions/{sessionId}/notes
+   * 3. Return the saved note
+   *
+   * Note: Notes are never shown to the visitor or sent to the AI.
+   */
+  async addSessionNote(
+    sessionId: string,
+    content: string
+  ): Promise<ApiResponse<ChatSessionNote>> {
+    return this.request<ChatSessionNote>(`/chat/sessions/${sessionId}/notes`, {
+      method: "POST",
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  /**
+   * deleteSessionNote() - Remove a private note (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID and note ID
+   * 2. DELETE /chat/sessions/{sessionId}/notes/{noteId}
+   */
+  async deleteSessionNote(sessionId: string, noteId: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/chat/sessions/${sessionId}/notes/${noteId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * listSavedReplies() - Get Marin's saved replies (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take an optional session ID
+   * 2. GET from /chat/saved-replies (?sessionId=X if given)
+   * 3. Return the replies sorted by shortcut; with a session ID each
+   *    has `rendered`, its placeholders filled in for that session
+   */
+  async listSavedReplies(sessionId?: string): Promise<ApiResponse<SavedReply[]>> {
+    return this.request<SavedReply[]>(
+      sessionId ? `/chat/saved-replies?sessionId=${sessionId}` : "/chat/saved-replies"
+    );
+  }
+
+  /**
+   * createSavedReply() - Add a saved reply (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take shortcut, title and content
+   * 2. POST to /chat/saved-replies
+   * 3. Fails with SHORTCUT_TAKEN if another reply uses the shortcut,
+   *    or UNKNOWN_PLACEHOLDER for a {{placeholder}} that can't be filled
+   */
+  async createSavedReply(data: CreateSavedReplyRequest): Promise<ApiResponse<SavedReply>> {
+    return this.request<SavedReply>("/chat/saved-replies", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * updateSavedReply() - Change a saved reply (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the reply ID and the fields to change
+   * 2. PATCH to /chat/saved-replies/{id}
+   * 3. Same errors as createSavedReply()
+   */
+  async updateSavedReply(
+    id: string,
+    data: UpdateSavedReplyRequest
+  ): Promise<ApiResponse<SavedReply>> {
+    return this.request<SavedReply>(`/chat/saved-replies/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * deleteSavedReply() - Remove a saved reply (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the reply ID
+   * 2. DELETE /chat/saved-replies/{id}
+   */
+  async deleteSavedReply(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/chat/saved-replies/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * listPromptVersions() - Get the AI's system prompt versions (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. GET from /chat/prompts
+   * 2. Return the versions, newest first, and the built-in prompt
+   */
+  async listPromptVersions(): Promise<ApiResponse<PromptVersionList>> {
+    return this.request<PromptVersionList>("/chat/prompts");
+  }
+
+  /**
+   * createPromptVersion() - Save a new system prompt version (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take a name and the prompt text
+   * 2. POST to /chat/prompts
+   * 3. Return the version; it is inactive until setActivePrompts()
+   */
+  async createPromptVersion(data: CreatePromptVersionRequest): Promise<ApiResponse<PromptVersion>> {
+    return this.request<PromptVersion>("/chat/prompts", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * updatePromptVersion() - Rename a system prompt version (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the version ID and its new name
+   * 2. PATCH to /chat/prompts/{id}
+   */
+  async updatePromptVersion(
+    id: string,
+    data: UpdatePromptVersionRequest
+  ): Promise<ApiResponse<PromptVersion>> {
+    return this.request<PromptVersion>(`/chat/prompts/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * deletePromptVersion() - Remove an unused prompt version (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the version ID
+   * 2. DELETE /chat/prompts/{id}
+   * 3. Fails with PROMPT_IN_USE if it is active or any session has used
+   *    it (those are kept so replies stay traceable)
+   */
+  async deletePromptVersion(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/chat/prompts/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * setActivePrompts() - Choose the prompt versions new sessions get (admin)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take the versions to activate with their weights (empty list =
+   *    built-in prompt)
+   * 2. PUT to /chat/prompts/active
+   * 3. Return the updated list; existing sessions keep their version
+   */
+  async setActivePrompts(data: SetActivePromptsRequest): Promise<ApiResponse<PromptVersionList>> {
+    return this.request<PromptVersionList>("/chat/prompts/active", {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * requestHuman() - Ask for Marin to join the chat (visitor)
+   *
+   * PSEUDOCODE:
+   * -----------
+   * 1. Take session ID
+   * 2. POST to /chat/sessions/{sessionId}/request-human
+   * 3. Session is flagged so Marin sees it needs attention
+   * 4. Return the updated session
+   */
+  async requestHuman(sessionId: string): Promise<ApiResponse<ChatSession>> {
+    return this.request<ChatSession>(`/chat/sessions/${sessionId}/request-human`, {
+      method: "POST",
     });
   }
 
@@ -233,14 +233,198 @@ export const VideoIdSchema = z.string().uuid();
  */
 export const ChatSessionStatusSchema = z.enum(["ACTIVE", "CLOSED"]);
 
+/**
+ * ChatSessionModeSchema - Validates who answers the visitor
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Must be one of: "AI", "HUMAN", "HYBRID"
+ */
+export const ChatSessionModeSchema = z.enum(["AI", "HUMAN", "HYBRID"]);
+
+/**
+ * SetSessionModeSchema - Validates an admin mode change
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by POST /chat/sessions/:id/mode and the SET_SESSION_MODE
+ * WebSocket message:
+ *   mode: Required - the new ChatSessionMode
+ */
+export const SetSessionModeSchema = z.object({
+  mode: ChatSessionModeSchema,
+});
+
+/**
+ * CloseSessionSchema - Validates closing a session
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by POST /chat/sessions/:id/close:
+ *   reason: Optional - "ADMIN" (default) or "IDLE" (the idle session job)
+ */
+export const CloseSessionSchema = z.object({
+  reason: z.enum(["ADMIN", "IDLE"]).default("ADMIN"),
+});
+
+/**
+ * ChatTagSchema - Validates one session tag
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Tags are short lowercase labels like "billing" or "follow-up":
+ *   - Trimmed and lowercased first, so "Billing " and "billing" match
+ *   - 1-32 characters: letters, digits, "-" and "_", starting with a
+ *     letter or digit
+ */
+export const ChatTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(32)
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, "Tags can only contain letters, digits, - and _");
+
+/**
+ * UpdateChatSessionSchema - Validates admin triage changes
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by PATCH /chat/sessions/:id. At least one of:
+ *   tags:     Replaces the session's tags (max 10, duplicates dropped)
+ *   priority: "LOW", "NORMAL", "HIGH" or "URGENT"
+ */
+export const UpdateChatSessionSchema = z
+  .object({
+    tags: z
+      .array(ChatTagSchema)
+      .max(10)
+      .transform((tags) => [...new Set(tags)])
+      .optional(),
+    priority: z.enum(["LOW", "NORMAL", "HIGH", "URGENT"]).optional(),
+  })
+  .refine((data) => data.tags !== undefined || data.priority !== undefined, {
+    message: "Nothing to update",
+  });
+
+/**
+ * CreateSessionNoteSchema - Validates a private admin note
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by POST /chat/sessions/:id/notes:
+ *   content: Required, 1-5000 characters
+ */
+export const CreateSessionNoteSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+/**
+ * CreateSavedReplySchema - Validates a new saved reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by POST /chat/saved-replies:
+ *   shortcut: Required - what Marin types after "/", lowercased,
+ *             1-32 letters, digits and "-" (e.g. "pricing")
+ *   title:    Required - 1-100 characters
+ *   content:  Required - 1-4000 characters (the admin reply limit);
+ *             may use {{placeholders}}, which the API checks
+ */
+export const CreateSavedReplySchema = z.object({
+  shortcut: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1)
+    .max(32)
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "Shortcuts can only contain letters, digits and -"),
+  title: z.string().trim().min(1).max(100),
+  content: z.string().trim().min(1).max(4000),
+});
+
+/**
+ * UpdateSavedReplySchema - Validates changes to a saved reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by PATCH /chat/saved-replies/:id. Same fields as
+ * CreateSavedReplySchema, all optional, but at least one must be given.
+ */
+export const UpdateSavedReplySchema = CreateSavedReplySchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: "Nothing to update" }
+);
+
+/**
+ * CreatePromptVersionSchema - Validates a new system prompt version
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by POST /chat/prompts:
+ *   name:    Required - 1-100 characters
+ *   content: Required - the system prompt, 1-20000 characters
+ */
+export const CreatePromptVersionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  content: z.string().trim().min(1).max(20000),
+});
+
+/**
+ * UpdatePromptVersionSchema - Validates a prompt version rename
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by PATCH /chat/prompts/:id. Only the name can change; a version's
+ * content is fixed once saved.
+ */
+export const UpdatePromptVersionSchema = CreatePromptVersionSchema.pick({ name: true });
+
+/**
+ * SetActivePromptsSchema - Validates which prompt versions are active
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by PUT /chat/prompts/active:
+ *   variants: Up to 5 versions, each with a weight of 1-100 (its share of
+ *             new sessions); no version twice. Empty means the built-in
+ *             prompt.
+ */
+export const SetActivePromptsSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        promptVersionId: z.string().uuid(),
+        weight: z.number().int().min(1).max(100),
+      })
+    )
+    .max(5)
+    .refine(
+      (variants) => new Set(variants.map((v) => v.promptVersionId)).size === variants.length,
+      { message: "Each version can only be listed once" }
+    ),
+});
+
+/**
+ * ExportTranscriptQuerySchema - Validates a transcript export request
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by GET /chat/sessions/:id/export?format=...
+ *   format: Optional - "markdown" (default), "json" or "html"
+ */
+export const ExportTranscriptQuerySchema = z.object({
+  format: z.enum(["markdown", "json", "html"]).default("markdown"),
+});
+
 /**
  * MessageRoleSchema - Validates who sent a message
  *
  * PSEUDOCODE:
  * -----------
- * Must be one of: "USER", "ASSISTANT", "SYSTEM"
+ * Must be one of: "USER", "ASSISTANT", "ADMIN", "SYSTEM"
  */
-export const MessageRoleSchema = z.enum(["USER", "ASSISTANT", "SYSTEM"]);
+export const MessageRoleSchema = z.enum(["USER", "ASSISTANT", "ADMIN", "SYSTEM"]);
 
 /**
  * StartChatSessionSchema - Validates new chat session request
@@ -255,6 +439,74 @@ export const StartChatSessionSchema = z.object({
   visitorName: z.string().max(50).optional(),
 });
 
+/**
+ * Chat attachment limits, shared so the chat page can check files before
+ * asking for an upload URL.
+ */
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+] as const;
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+/**
+ * Languages detected in visitor messages (ISO 639-1 codes), with their
+ * English names. The assistant replies in the visitor's language; Marin
+ * reads ADMIN_LANGUAGE, and messages in any other language can be
+ * translated into it on the admin session page.
+ */
+export const CHAT_LANGUAGES = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ru: "Russian",
+  uk: "Ukrainian",
+  el: "Greek",
+  ar: "Arabic",
+  he: "Hebrew",
+  hi: "Hindi",
+  th: "Thai",
+  zh: "Chinese",
+  ja: "Japanese",
+  ko: "Korean",
+} as const;
+export type ChatLanguage = keyof typeof CHAT_LANGUAGES;
+export const ADMIN_LANGUAGE: ChatLanguage = "en";
+
+/**
+ * CreateAttachmentSchema - Validates a request to upload a chat attachment
+ *
+ * PSEUDOCODE:
+ * -----------
+ * fileName: Required, 1-255 characters (shown next to the file)
+ * mimeType: Must be one of ATTACHMENT_MIME_TYPES (screenshots, PDFs,
+ *           plain text - nothing that runs in a browser, like HTML or SVG)
+ * fileSizeBytes: 1 byte to ATTACHMENT_MAX_BYTES
+ */
+export const CreateAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  mimeType: z.enum(ATTACHMENT_MIME_TYPES, {
+    errorMap: () => ({ message: "Unsupported file type" }),
+  }),
+  fileSizeBytes: z.number().int().min(1).max(ATTACHMENT_MAX_BYTES, "File is too large (max 10MB)"),
+});
+
+// Attachments sent with a message; the text may then be left empty
+const AttachmentIdsSchema = z.array(z.string().uuid()).max(MAX_ATTACHMENTS_PER_MESSAGE).optional();
+
+function hasTextOrAttachments(message: { content: string; attachmentIds?: string[] }) {
+  return message.content.length > 0 || (message.attachmentIds?.length ?? 0) > 0;
+}
+
 /**
  * SendMessageSchema - Validates outgoing chat messages
  *
@@ -264,8 +516,17 @@ export const StartChatSessionSchema = z.object({
  *   - Required UUID of the chat session
  *
  * content:
- *   - Required message text
- *   - 1-4000 characters (no empty messages, reasonable limit)
+ *   - Message text, up to 4000 characters
+ *   - Only empty when the message carries attachments
+ *
+ * clientMessageId:
+ *   - Optional UUID generated by the client for this message
+ *   - Retrying with the same ID returns the saved message
+ *     instead of storing it twice
+ *
+ * attachmentIds:
+ *   - Optional, up to MAX_ATTACHMENTS_PER_MESSAGE uploaded attachments
+ *     (see CreateAttachmentSchema)
  *
  * Example:
  *   {
@@ -273,16 +534,66 @@ export const StartChatSessionSchema = z.object({
  *     content: "Hello! Can you help me with something?"
  *   }
  */
-export const SendMessageSchema = z.object({
-  sessionId: z.string().uuid(),
-  content: z.string().min(1).max(4000),
-});
+export const SendMessageSchema = z
+  .object({
+    sessionId: z.string().uuid(),
+    content: z.string().max(4000),
+    clientMessageId: z.string().uuid().optional(),
+    attachmentIds: AttachmentIdsSchema,
+  })
+  .refine(hasTextOrAttachments, "Message must have text or an attachment");
 
 /**
  * SessionIdSchema - Validates a session ID (UUID format)
  */
 export const SessionIdSchema = z.string().uuid();
 
+/**
+ * RateMessageSchema - Validates a visitor's rating of an AI reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ * rating: "UP" or "DOWN"
+ * comment: Optional, trimmed, max 1000 characters (empty means none)
+ */
+export const RateMessageSchema = z.object({
+  rating: z.enum(["UP", "DOWN"]),
+  comment: z
+    .string()
+    .trim()
+    .max(1000)
+    .transform((value) => value || undefined)
+    .optional(),
+});
+
+/**
+ * FeedbackReportQuerySchema - Validates feedback report filters
+ *
+ * PSEUDOCODE:
+ * -----------
+ * from / to: Optional dates; only ratings given in [from, to) count
+ * interval: "day" (default) or "week", for the satisfaction timeline
+ */
+export const FeedbackReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(["day", "week"]).default("day"),
+});
+
+/**
+ * UsageReportQuerySchema - Validates token usage report filters
+ *
+ * PSEUDOCODE:
+ * -----------
+ * from / to: Optional dates; only AI calls made in [from, to) count
+ * interval: "day" (default) or "week", for the usage timeline
+ */
+export const UsageReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  interval: z.enum(["day", "week"]).default("day"),
+});
+
 // ============================================
 // WebSocket Schemas
 // ============================================
@@ -297,6 +608,10 @@ export const SessionIdSchema = z.string().uuid();
  *   sessionId: Required - which chat to join
  *   isAdmin: Optional - are they joining as admin?
  *   adminKey: Optional - admin API key for verification
+ *   lastSeq: Optional - sequence number of the last event the client
+ *            saw; when reconnecting, only newer events are replayed
+ *   visitorToken: Optional - the embedded widget's visitor token, used
+ *            when the connection has no visitor cookie
  *
  * Security note:
  *   If isAdmin is true, adminKey MUST be valid or request is rejected.
@@ -306,6 +621,20 @@ export const WsJoinSessionSchema = z.object({
   sessionId: z.string().uuid(),
   isAdmin: z.boolean().optional(),
   adminKey: z.string().optional(),
+  lastSeq: z.number().int().min(0).optional(),
+  visitorToken: z.string().max(200).optional(),
+});
+
+/**
+ * WsJoinInboxSchema - Validates an admin's inbox subscription
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   adminKey: Required - checked against ADMIN_API_KEY exactly like
+ *             WsJoinSessionSchema's adminKey (in the WebSocket handler)
+ */
+export const WsJoinInboxSchema = z.object({
+  adminKey: z.string().min(1),
 });
 
 /**
@@ -314,12 +643,23 @@ export const WsJoinSessionSchema = z.object({
  * PSEUDOCODE:
  * -----------
  * Same constraints as SendMessageSchema content:
- *   - 1-4000 characters
- *   - No empty messages
+ *   - Up to 4000 characters
+ *   - No empty messages, unless they carry attachments
+ *
+ * clientMessageId makes resending after a reconnect safe
+ * (see SendMessageSchema).
+ *
+ * translate: Admin only - translate the reply into the visitor's language
+ *            before sending it
  */
-export const WsSendMessageSchema = z.object({
-  content: z.string().min(1).max(4000),
-});
+export const WsSendMessageSchema = z
+  .object({
+    content: z.string().max(4000),
+    clientMessageId: z.string().uuid().optional(),
+    attachmentIds: AttachmentIdsSchema,
+    translate: z.boolean().optional(),
+  })
+  .refine(hasTextOrAttachments, "Message must have text or an attachment");
 
 // ============================================
 // Pagination Schemas
@@ -355,6 +695,44 @@ export const PaginationSchema = z.object({
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+/**
+ * SearchSessionsQuerySchema - Validates chat session search filters
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Used by GET /chat/sessions (admin). Pagination plus optional filters,
+ * all of which must match:
+ *
+ *   q:             Words to find in any message of the session
+ *                  (Postgres full-text search, so "replies" finds "reply")
+ *   status:        "ACTIVE" or "CLOSED"
+ *   from:          Sessions started at or after this date
+ *   to:            Sessions started before this date (exclusive)
+ *   visitorName:   Part of the visitor's name, case-insensitive
+ *   hasAdminReply: "true" → Marin replied at least once, "false" → never
+ *   tags:          Comma-separated; sessions must have all of them
+ *
+ * Example URL: /chat/sessions?q=refund&status=ACTIVE&hasAdminReply=false
+ * Parsed: { page: 1, pageSize: 20, q: "refund", status: "ACTIVE",
+ *           hasAdminReply: false }
+ */
+export const SearchSessionsQuerySchema = PaginationSchema.extend({
+  q: z.string().trim().min(1).max(200).optional(),
+  status: z.enum(["ACTIVE", "CLOSED"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  visitorName: z.string().trim().min(1).max(100).optional(),
+  hasAdminReply: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  tags: z
+    .string()
+    .transform((value) => value.split(",").filter((tag) => tag.trim()))
+    .pipe(z.array(ChatTagSchema).max(10))
+    .optional(),
+});
+
 // ============================================
 // Admin Auth Schema
 // ============================================
@@ -405,5 +783,19 @@ export type CreateCheckoutSessionInput = z.infer<typeof CreateCheckoutSessionSch
 export type GetSignedUploadUrlInput = z.infer<typeof GetSignedUploadUrlSchema>;
 export type UpdateVideoStatusInput = z.infer<typeof UpdateVideoStatusSchema>;
 export type StartChatSessionInput = z.infer<typeof StartChatSessionSchema>;
+export type SetSessionModeInput = z.infer<typeof SetSessionModeSchema>;
+export type CloseSessionInput = z.infer<typeof CloseSessionSchema>;
+export type UpdateChatSessionInput = z.infer<typeof UpdateChatSessionSchema>;
+export type CreateSessionNoteInput = z.infer<typeof CreateSessionNoteSchema>;
+export type CreateSavedReplyInput = z.infer<typeof CreateSavedReplySchema>;
+export type UpdateSavedReplyInput = z.infer<typeof UpdateSavedReplySchema>;
+export type CreatePromptVersionInput = z.infer<typeof CreatePromptVersionSchema>;
+export type UpdatePromptVersionInput = z.infer<typeof UpdatePromptVersionSchema>;
+export type SetActivePromptsInput = z.infer<typeof SetActivePromptsSchema>;
 export type SendMessageInput = z.infer<typeof SendMessageSchema>;
+export type CreateAttachmentInput = z.infer<typeof CreateAttachmentSchema>;
+export type RateMessageInput = z.infer<typeof RateMessageSchema>;
+export type FeedbackReportQueryInput = z.infer<typeof FeedbackReportQuerySchema>;
+export type UsageReportQueryInput = z.infer<typeof UsageReportQuerySchema>;
 export type PaginationInput = z.infer<typeof PaginationSchema>;
+export type SearchSessionsQueryInput = z.infer<typeof SearchSessionsQuerySchema>;
@@ -331,6 +331,28 @@ export interface UpdateVideoStatusRequest {
  */
 export type ChatSessionStatus = "ACTIVE" | "CLOSED";
 
+/**
+ * ChatSessionMode - Who answers the visitor
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   AI     → The AI assistant answers every message (default)
+ *   HUMAN  → Marin has taken over; the AI stays quiet
+ *   HYBRID → Both: the AI answers unless Marin has replied
+ *            in the last couple of minutes
+ */
+export type ChatSessionMode = "AI" | "HUMAN" | "HYBRID";
+
+/**
+ * ChatCloseReason - Why a chat was closed
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   ADMIN → Marin closed it from the admin pages
+ *   IDLE  → The worker closed it after a period without messages
+ */
+export type ChatCloseReason = "ADMIN" | "IDLE";
+
 /**
  * MessageRole - Who sent a chat message
  *
@@ -338,9 +360,20 @@ export type ChatSessionStatus = "ACTIVE" | "CLOSED";
  * -----------
  *   USER      → Message from the website visitor
  *   ASSISTANT → Response from the AI
+ *   ADMIN     → Reply written by Marin (from the admin pages)
  *   SYSTEM    → System notifications (e.g., "Admin joined the chat")
  */
-export type MessageRole = "USER" | "ASSISTANT" | "SYSTEM";
+export type MessageRole = "USER" | "ASSISTANT" | "ADMIN" | "SYSTEM";
+
+/**
+ * ChatSessionPriority - How urgently Marin should look at a session
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   LOW → NORMAL (default) → HIGH → URGENT
+ *   Set by Marin while triaging; the inbox lists higher priorities first.
+ */
+export type ChatSessionPriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
 
 /**
  * ChatSession - A conversation thread in the database
@@ -353,21 +386,206 @@ export type MessageRole = "USER" | "ASSISTANT" | "SYSTEM";
  *   - visitorId: Anonymous ID for the visitor (stored in their browser)
  *   - visitorName: Display name (if they provided one)
  *   - status: ACTIVE or CLOSED
+ *   - mode: AI, HUMAN or HYBRID (see ChatSessionMode)
+ *   - humanRequestedAt: When the visitor asked to talk to Marin
+ *                       (null if they haven't, or Marin already responded)
+ *   - adminReadAt: When Marin last opened the session (null if never)
+ *   - tags: Marin's labels, lowercase (e.g. ["billing", "bug"])
+ *   - priority: See ChatSessionPriority
+ *   - promptVersionId: The system prompt version it was assigned when it
+ *                      started (null: the built-in prompt)
+ *   - language: The language the visitor last wrote in (see
+ *               CHAT_LANGUAGES; null until one is detected)
  *   - metadata: Extra data (like browser info, location, etc.)
  *   - createdAt/updatedAt: Timestamps
  *
  * One visitor can have multiple sessions (each page visit = new session)
+ *
+ * tags, priority and promptVersionId are for Marin only: they are left
+ * out of everything sent to visitors.
  */
 export interface ChatSession {
   id: string;
   visitorId: string;
   visitorName: string | null;
   status: ChatSessionStatus;
+  mode: ChatSessionMode;
+  humanRequestedAt: Date | null;
+  adminReadAt: Date | null;
+  tags?: string[];
+  priority?: ChatSessionPriority;
+  promptVersionId?: string | null;
+  language?: string | null;
   metadata: Record<string, unknown> | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * ChatSessionNote - A private note Marin left on a session
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Stored apart from the messages, so notes are never shown to the
+ * visitor or sent to the AI:
+ *   - id: Unique identifier (UUID)
+ *   - sessionId: The session it is about
+ *   - content: The note text
+ *   - createdAt: When it was written
+ */
+export interface ChatSessionNote {
+  id: string;
+  sessionId: string;
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * InboxSession - A chat session as listed in the admin inbox
+ *
+ * PSEUDOCODE:
+ * -----------
+ * The session plus what Marin needs to triage it:
+ *
+ *   - messageCount: Messages in the session
+ *   - unreadCount: Visitor messages since Marin last opened the session
+ *                  or replied, whichever is later
+ *   - waitingSince: Since when the visitor has been waiting for Marin:
+ *                   the oldest unread message or the "talk to Marin"
+ *                   request, whichever is earlier (null if not waiting)
+ *   - lastMessage: Latest message, for a preview (null if none)
+ *
+ * The inbox lists sessions that asked for Marin first, then the ones
+ * waiting longest.
+ */
+export interface InboxSession extends ChatSession {
+  messageCount: number;
+  unreadCount: number;
+  waitingSince: Date | null;
+  lastMessage: ChatMessage | null;
+}
+
+/**
+ * VisitorSessionSummary - One of the visitor's own past chats
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Returned by GET /chat/sessions/mine so visitors can pick a chat up
+ * again. Sessions are matched by the visitor token cookie, not by IP.
+ *
+ *   - messageCount: Messages in the session
+ *   - lastMessage: Latest message, for a preview (null if none)
+ */
+export interface VisitorSessionSummary extends ChatSession {
+  messageCount: number;
+  lastMessage: ChatMessage | null;
+}
+
+/**
+ * KnowledgeSourceType - What kind of content the assistant can cite
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   BLOG_POST → An MDX post (sourceId is the slug)
+ *   VIDEO     → An uploaded video (sourceId is the video id)
+ */
+export type KnowledgeSourceType = "BLOG_POST" | "VIDEO";
+
+/**
+ * ChatCitation - A source the AI used in its reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - index: The number the reply uses to refer to it, e.g. [1]
+ *   - sourceType: BLOG_POST or VIDEO
+ *   - sourceId: Post slug or video id (used to build the link)
+ *   - title: Post or video title, for display
+ *
+ * Links: BLOG_POST → /blog/{sourceId}, VIDEO → /videos/{sourceId}
+ */
+export interface ChatCitation {
+  index: number;
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+}
+
+/**
+ * ChatToolCall - A server-side tool the AI ran while writing a reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - name: Which tool (search_videos, find_posts_by_tag, start_donation)
+ *   - arguments: What the AI asked for, e.g. { tag: "tech" }
+ *   - result: What the tool returned (null if it failed)
+ *   - error: Why it failed (null on success)
+ *   - messageId: The reply it led to (null if no reply was saved)
+ *
+ * Shown on the admin session page so Marin can see what the assistant did.
+ */
+export interface ChatToolCall {
+  id: string;
+  sessionId: string;
+  messageId: string | null;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: unknown;
+  error: string | null;
+  createdAt: Date;
+}
+
+/**
+ * ChatIncidentKind - Why the prompt guard stepped in
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   PROMPT_INJECTION → A visitor message looked like an attempt to override
+ *                      the assistant's instructions (the AI wasn't called)
+ *   PROMPT_LEAK      → The AI's reply repeated its system prompt
+ *   DISALLOWED_CLAIM → The AI's reply spoke as Marin or promised something
+ *                      on their behalf
+ *
+ * In every case the visitor got a safe fallback reply instead.
+ */
+export type ChatIncidentKind = "PROMPT_INJECTION" | "PROMPT_LEAK" | "DISALLOWED_CLAIM";
+
+/**
+ * ChatIncident - One prompt guard intervention, for admins to review
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - sessionId: The chat it happened in
+ *   - messageId: The visitor message (injection) or the fallback reply
+ *                saved in place of the AI's (leak, claim)
+ *   - kind: What was detected (see ChatIncidentKind)
+ *   - score: Injection score (PROMPT_INJECTION only)
+ *   - details: The patterns or phrases that matched
+ *   - content: The offending message or reply, as the guard saw it
+ */
+export interface ChatIncident {
+  id: string;
+  sessionId: string;
+  messageId: string | null;
+  kind: ChatIncidentKind;
+  score: number | null;
+  details: Record<string, unknown>;
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * ModerationFlag - Why a visitor message was flagged for review
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   PII       → Contains an email, phone or card number
+ *               (redacted from the copy the AI sees)
+ *   PROFANITY → Contains profanity
+ *
+ * Messages hitting the blocklist are rejected instead (MESSAGE_BLOCKED).
+ */
+export type ModerationFlag = "PII" | "PROFANITY";
+
 /**
  * ChatMessage - A single message in a chat
  *
@@ -377,6 +595,21 @@ export interface ChatSession {
  *   - sessionId: Which chat session this belongs to
  *   - role: Who sent it (USER, ASSISTANT, or SYSTEM)
  *   - content: The actual message text
+ *   - citations: Blog posts/videos an AI reply cites (null if none)
+ *   - toolCalls: Tools the AI ran before replying (AI replies only)
+ *   - attachments: Files the visitor sent with the message
+ *   - clientMessageId: ID the sender's client generated (for retries)
+ *   - aiContent: The copy the AI sees, if moderation changed it
+ *                (e.g. PII redacted)
+ *   - flags: Why moderation flagged it for review (visitor messages)
+ *   - model: The AI model that wrote it (generated AI replies)
+ *   - promptTokens / completionTokens: AI tokens the reply used
+ *   - latencyMs: How long the reply took to generate
+ *   - promptVersionId: The system prompt version it was generated with
+ *   - language: Detected language of a visitor message, or the language
+ *               a translated admin reply was sent in
+ *   - originalContent: What Marin wrote, if the reply was translated
+ *   - feedback: The visitor's rating of it (AI replies)
  *   - createdAt: When it was sent
  */
 export interface ChatMessage {
@@ -384,7 +617,249 @@ export interface ChatMessage {
   sessionId: string;
   role: MessageRole;
   content: string;
+  citations?: ChatCitation[] | null;
+  toolCalls?: ChatToolCall[];
+  attachments?: ChatAttachment[];
+  clientMessageId?: string | null;
+  aiContent?: string | null;
+  flags?: ModerationFlag[];
+  model?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  latencyMs?: number | null;
+  promptVersionId?: string | null;
+  language?: string | null;
+  originalContent?: string | null;
+  feedback?: ChatFeedback | null;
+  createdAt: Date;
+}
+
+/**
+ * ChatAttachment - A file (usually a screenshot) shared in a chat
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - id: Unique identifier
+ *   - sessionId: Which chat session it was uploaded to
+ *   - messageId: The message it was sent with (null until sent)
+ *   - fileName: The file's original name, for display
+ *   - mimeType: One of ATTACHMENT_MIME_TYPES
+ *   - fileSizeBytes: Size of the file
+ *   - url: Where to view or download it
+ *   - createdAt: When the upload was started
+ */
+export interface ChatAttachment {
+  id: string;
+  sessionId: string;
+  messageId: string | null;
+  fileName: string;
+  mimeType: string;
+  fileSizeBytes: number;
+  url: string;
+  createdAt: Date;
+}
+
+/**
+ * CreateAttachmentRequest - Data to start uploading an attachment
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - fileName: The file's name
+ *   - mimeType: Must be in ATTACHMENT_MIME_TYPES
+ *   - fileSizeBytes: At most ATTACHMENT_MAX_BYTES
+ */
+export interface CreateAttachmentRequest {
+  fileName: string;
+  mimeType: string;
+  fileSizeBytes: number;
+}
+
+/**
+ * CreateAttachmentResponse - Where to upload an attachment
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Upload flow:
+ *   1. Frontend sends CreateAttachmentRequest
+ *   2. API returns the attachment and a presigned S3 URL
+ *   3. Frontend PUTs the file to uploadUrl
+ *   4. Frontend sends a message with the attachment's id in attachmentIds
+ */
+export interface CreateAttachmentResponse {
+  attachment: ChatAttachment;
+  uploadUrl: string;
+}
+
+/**
+ * FeedbackRating - A visitor's verdict on an AI reply
+ */
+export type FeedbackRating = "UP" | "DOWN";
+
+/**
+ * ChatFeedback - A visitor's rating of one AI reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - messageId: The ASSISTANT message rated (one rating per message)
+ *   - rating: UP or DOWN
+ *   - comment: Optional, e.g. what was wrong with the answer
+ *
+ * Rating the same message again replaces the earlier rating.
+ */
+export interface ChatFeedback {
+  id: string;
+  messageId: string;
+  sessionId: string;
+  rating: FeedbackRating;
+  comment: string | null;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * RateMessageRequest - Data to rate an AI reply
+ */
+export interface RateMessageRequest {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+/**
+ * FeedbackCounts - Ratings in one group of the feedback report
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - up / down: Number of ratings of each kind
+ *   - satisfaction: up / (up + down), 0-1 (null without ratings)
+ */
+export interface FeedbackCounts {
+  up: number;
+  down: number;
+  satisfaction: number | null;
+}
+
+/**
+ * FeedbackReport - How well the AI's replies are received
+ *
+ * PSEUDOCODE:
+ * -----------
+ * For ratings given in the report's date range:
+ *   - totals: All ratings
+ *   - timeline: Ratings per day or week, oldest first (periods without
+ *               ratings are left out)
+ *   - byModel: Ratings per AI model that wrote the reply
+ *              (model is null for canned replies, e.g. the welcome message)
+ *   - byPromptVersion: Ratings of generated replies per system prompt
+ *                      version, to compare A/B variants (null for the
+ *                      built-in prompt)
+ *   - worstSessions: Conversations with the most thumbs down, with the
+ *                    latest comment left on one
+ */
+export interface FeedbackReport {
+  totals: FeedbackCounts;
+  timeline: Array<FeedbackCounts & { period: Date }>;
+  byModel: Array<FeedbackCounts & { model: string | null }>;
+  byPromptVersion: Array<FeedbackCounts & { promptVersionId: string | null; name: string | null }>;
+  worstSessions: Array<
+    FeedbackCounts & {
+      sessionId: string;
+      visitorName: string | null;
+      createdAt: Date;
+      lastComment: string | null;
+    }
+  >;
+}
+
+/**
+ * FeedbackReportRequest - Filters for the feedback report
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - from / to: Only ratings given in this range (to is exclusive)
+ *   - interval: Timeline granularity, "day" (default) or "week"
+ */
+export interface FeedbackReportRequest {
+  from?: Date | string;
+  to?: Date | string;
+  interval?: "day" | "week";
+}
+
+/**
+ * UsageTotals - AI token usage in one group of the usage report
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - replies: AI replies with usage recorded
+ *   - promptTokens / completionTokens: Tokens sent / generated, by replies
+ *     and the other AI calls (see UsageKind)
+ *   - totalTokens: promptTokens + completionTokens
+ *   - avgLatencyMs: Average time to generate a reply (null without replies)
+ */
+export interface UsageTotals {
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  avgLatencyMs: number | null;
+}
+
+/**
+ * UsageKind - What an AI call was for
+ *
+ *   - REPLY: An assistant reply (all the calls it took)
+ *   - SUMMARY: Folding older turns of a long chat into a summary
+ *   - TRANSLATION: Translating a message for Marin, or their reply for
+ *     the visitor
+ */
+export type UsageKind = "REPLY" | "SUMMARY" | "TRANSLATION";
+
+/**
+ * UsageReport - How many AI tokens the chat consumes
+ *
+ * PSEUDOCODE:
+ * -----------
+ * For AI calls made in the report's date range:
+ *   - totals: All calls
+ *   - timeline: Usage per day or week, oldest first
+ *   - byModel: Usage per AI model
+ *   - byKind: Usage per kind of call, most tokens first
+ *   - topSessions: The conversations that used the most tokens
+ *
+ * And, whatever the range:
+ *   - caps: The configured limits (null when unlimited) and the tokens
+ *           used so far today (UTC)
+ */
+export interface UsageReport {
+  totals: UsageTotals;
+  timeline: Array<UsageTotals & { period: Date }>;
+  byModel: Array<UsageTotals & { model: string | null }>;
+  byKind: Array<UsageTotals & { kind: UsageKind }>;
+  topSessions: Array<
+    UsageTotals & {
+      sessionId: string;
+      visitorName: string | null;
+      createdAt: Date;
+    }
+  >;
+  caps: {
+    sessionTokens: number | null;
+    dailyTokens: number | null;
+    usedToday: number;
+  };
+}
+
+/**
+ * UsageReportRequest - Filters for the usage report
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - from / to: Only AI calls made in this range (to is exclusive)
+ *   - interval: Timeline granularity, "day" (default) or "week"
+ */
+export interface UsageReportRequest {
+  from?: Date | string;
+  to?: Date | string;
+  interval?: "day" | "week";
 }
 
 /**
@@ -405,10 +880,15 @@ export interface StartChatSessionRequest {
  * -----------
  * Returns the session ID and full session object so the
  * frontend can start sending messages.
+ *
+ * visitorToken is only returned to the embedded widget (on an
+ * EMBED_ORIGINS site); it sends it back in the X-Visitor-Token header and
+ * the WebSocket join, since the visitor cookie doesn't reach other sites.
  */
 export interface StartChatSessionResponse {
   sessionId: string;
   session: ChatSession;
+  visitorToken?: string;
 }
 
 /**
@@ -417,11 +897,15 @@ export interface StartChatSessionResponse {
  * PSEUDOCODE:
  * -----------
  *   - sessionId: Which chat to send to
- *   - content: The message text
+ *   - content: The message text (may be empty if there are attachments)
+ *   - clientMessageId: Optional UUID that makes retries safe
+ *   - attachmentIds: Uploaded attachments to send with the message
  */
 export interface SendMessageRequest {
   sessionId: string;
   content: string;
+  clientMessageId?: string;
+  attachmentIds?: string[];
 }
 
 /**
@@ -438,20 +922,261 @@ export interface SendMessageResponse {
   aiResponse?: ChatMessage;
 }
 
+/**
+ * TranslateMessageResponse - A message translated for Marin
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - messageId: The message translated
+ *   - language: Its detected language (null if unknown)
+ *   - targetLanguage: ADMIN_LANGUAGE
+ *   - translation: The translated text (the original text when it was
+ *                  already in ADMIN_LANGUAGE)
+ */
+export interface TranslateMessageResponse {
+  messageId: string;
+  language: string | null;
+  targetLanguage: string;
+  translation: string;
+}
+
+/**
+ * TranscriptFormat - File formats a chat transcript can be exported as
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   markdown → Readable text (.md)
+ *   json     → Machine-readable, with every field (.json)
+ *   html     → Standalone page that opens in any browser (.html)
+ */
+export type TranscriptFormat = "markdown" | "json" | "html";
+
 /**
  * ListSessionsResponse - Paginated list of chat sessions (admin)
  *
  * PSEUDOCODE:
  * -----------
  * For the admin dashboard to view all chats:
- *   - sessions: Array of sessions with message count
+ *   - sessions: Array of sessions with message and unread counts
  *   - total: Total number of sessions (for pagination)
  */
 export interface ListSessionsResponse {
-  sessions: (ChatSession & { messageCount: number })[];
+  sessions: InboxSession[];
+  total: number;
+}
+
+/**
+ * SearchSessionsRequest - Filters for searching chat sessions (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Every field is optional; the ones given must all match:
+ *   - q: Words to find in the session's messages (full-text)
+ *   - status: Only ACTIVE or only CLOSED sessions
+ *   - from / to: When the session started (to is exclusive)
+ *   - visitorName: Part of the visitor's name
+ *   - hasAdminReply: Whether Marin has replied in the session
+ *   - tags: Sessions tagged with all of these
+ *   - page / pageSize: Pagination, as for every list
+ */
+export interface SearchSessionsRequest {
+  q?: string;
+  status?: ChatSessionStatus;
+  from?: Date | string;
+  to?: Date | string;
+  visitorName?: string;
+  hasAdminReply?: boolean;
+  tags?: string[];
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * HighlightedText - Text split into plain and highlighted parts
+ *
+ * PSEUDOCODE:
+ * -----------
+ * Search snippets come as parts instead of HTML so message content
+ * never has to be rendered as markup:
+ *   [{ text: "Can I get a ", highlight: false },
+ *    { text: "refund", highlight: true }]
+ */
+export type HighlightedText = Array<{ text: string; highlight: boolean }>;
+
+/**
+ * SessionSearchResult - A session found by a search
+ *
+ * PSEUDOCODE:
+ * -----------
+ * The inbox entry plus, when searching with q, the best matching
+ * message:
+ *   - match.messageId: The message that matched
+ *   - match.role: Who wrote it
+ *   - match.snippet: The matching part with the search words highlighted
+ *
+ * match is null when the search had no q.
+ */
+export interface SessionSearchResult extends InboxSession {
+  match: {
+    messageId: string;
+    role: MessageRole;
+    snippet: HighlightedText;
+  } | null;
+}
+
+/**
+ * SearchSessionsResponse - Sessions matching a search (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - sessions: Best matches first when searching with q, otherwise
+ *               most recently updated first
+ *   - total: Sessions matching the filters (for pagination)
+ */
+export interface SearchSessionsResponse {
+  sessions: SessionSearchResult[];
   total: number;
 }
 
+/**
+ * UpdateChatSessionRequest - Triage changes to a session (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ * At least one of:
+ *   - tags: The session's new tags (replaces the old ones)
+ *   - priority: The new priority
+ */
+export interface UpdateChatSessionRequest {
+  tags?: string[];
+  priority?: ChatSessionPriority;
+}
+
+/**
+ * SavedReply - A canned answer in Marin's reply library (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - id: Unique identifier (UUID)
+ *   - shortcut: What Marin types after "/" to insert it (e.g. "pricing")
+ *   - title: Short description shown in the picker
+ *   - content: The reply text; may use placeholders filled from the
+ *              session: {{visitorName}}, {{firstName}}
+ *   - rendered: content with the placeholders filled in (only when
+ *               listing for a session)
+ *   - createdAt/updatedAt: Timestamps
+ */
+export interface SavedReply {
+  id: string;
+  shortcut: string;
+  title: string;
+  content: string;
+  rendered?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * CreateSavedReplyRequest - Data to add a saved reply (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - shortcut: Unique; lowercase letters, digits and "-"
+ *   - title: Shown in the picker
+ *   - content: The reply, with optional {{placeholders}}
+ *
+ * For updates every field is optional (UpdateSavedReplyRequest).
+ */
+export interface CreateSavedReplyRequest {
+  shortcut: string;
+  title: string;
+  content: string;
+}
+
+export type UpdateSavedReplyRequest = Partial<CreateSavedReplyRequest>;
+
+/**
+ * PromptVersion - A saved wording of the AI's system prompt (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - id: Unique identifier (UUID)
+ *   - name: Label, e.g. "Shorter answers"
+ *   - content: The system prompt. Fixed once saved: to change the wording,
+ *              save a new version
+ *   - weight: Share of new sessions that get it (0 when not active).
+ *             Several active versions split new sessions (A/B test)
+ *   - sessionCount: Sessions that were assigned it
+ *   - createdAt/updatedAt: Timestamps
+ *
+ * Sessions keep the version they started with, so activating a version
+ * only affects new chats.
+ */
+export interface PromptVersion {
+  id: string;
+  name: string;
+  content: string;
+  weight: number;
+  sessionCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * PromptVersionList - Every prompt version (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - versions: Newest first
+ *   - defaultPrompt: The built-in prompt, used while no version is active
+ */
+export interface PromptVersionList {
+  versions: PromptVersion[];
+  defaultPrompt: string;
+}
+
+/**
+ * CreatePromptVersionRequest - Data to save a new prompt version (admin)
+ *
+ * New versions start inactive; see SetActivePromptsRequest.
+ */
+export interface CreatePromptVersionRequest {
+  name: string;
+  content: string;
+}
+
+/**
+ * UpdatePromptVersionRequest - Rename a prompt version (admin)
+ */
+export interface UpdatePromptVersionRequest {
+  name: string;
+}
+
+/**
+ * SetActivePromptsRequest - Choose which versions new sessions get (admin)
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - variants: The versions to activate, each with a weight (1-100);
+ *               every other version is deactivated
+ *
+ * Examples:
+ *   - One version: everyone gets it (also how to roll back)
+ *   - Two versions, weights 50/50: an even A/B test
+ *   - Empty list: back to the built-in prompt
+ */
+export interface SetActivePromptsRequest {
+  variants: Array<{ promptVersionId: string; weight: number }>;
+}
+
+/**
+ * ChatTagCount - A tag in use and how many sessions have it (admin)
+ */
+export interface ChatTagCount {
+  tag: string;
+  count: number;
+}
+
 /**
  * GetSessionMessagesResponse - Full chat history
  *
@@ -482,14 +1207,30 @@ export interface GetSessionMessagesResponse {
  *   SEND_MESSAGE   → Client is sending a chat message
  *   TYPING_START   → Client started typing
  *   TYPING_STOP    → Client stopped typing
+ *   REQUEST_HUMAN  → Visitor asks to talk to Marin
+ *   SET_SESSION_MODE → Admin takes over or hands back to the AI
+ *   JOIN_INBOX     → Admin subscribes to events from every session
+ *   MARK_SESSION_READ → Admin has seen the session's messages
  *
  * SERVER → CLIENT:
- *   MESSAGE_RECEIVED → A new message was received
- *   AI_RESPONSE      → AI generated a response
+ *   MESSAGE_RECEIVED     → A new message was received
+ *   AI_RESPONSE          → AI generated a response (sent in one piece)
+ *   AI_RESPONSE_CHUNK    → Next piece of an AI response being streamed
+ *   AI_RESPONSE_COMPLETE → Streaming finished, carries the saved message
  *   ERROR            → Something went wrong
  *   SESSION_CLOSED   → The session was closed
  *   TYPING_START     → Someone else is typing
  *   TYPING_STOP      → Someone stopped typing
+ *   SESSION_MODE_CHANGED → Mode changed or the visitor asked for Marin
+ *   SESSION_RESUMED  → Reconnected; missed events follow (see lastSeq)
+ *
+ * SERVER → ADMIN INBOX (after JOIN_INBOX):
+ *   INBOX_JOINED          → The active sessions, to start from
+ *   INBOX_SESSION_CREATED → A visitor started a chat
+ *   INBOX_NEW_MESSAGE     → A message was added to a session
+ *   INBOX_SESSION_CLOSED  → A session was closed
+ *   INBOX_NEEDS_HUMAN     → A visitor asked to talk to Marin
+ *   INBOX_SESSION_UPDATED → Anything else (mode change, marked read)
  */
 export type WsMessageType =
   | "JOIN_SESSION"
@@ -498,10 +1239,24 @@ export type WsMessageType =
   | "SEND_MESSAGE"
   | "MESSAGE_RECEIVED"
   | "AI_RESPONSE"
+  | "AI_RESPONSE_CHUNK"
+  | "AI_RESPONSE_COMPLETE"
   | "ERROR"
   | "SESSION_CLOSED"
   | "TYPING_START"
-  | "TYPING_STOP";
+  | "TYPING_STOP"
+  | "REQUEST_HUMAN"
+  | "SET_SESSION_MODE"
+  | "SESSION_MODE_CHANGED"
+  | "SESSION_RESUMED"
+  | "JOIN_INBOX"
+  | "MARK_SESSION_READ"
+  | "INBOX_JOINED"
+  | "INBOX_SESSION_CREATED"
+  | "INBOX_NEW_MESSAGE"
+  | "INBOX_SESSION_CLOSED"
+  | "INBOX_NEEDS_HUMAN"
+  | "INBOX_SESSION_UPDATED";
 
 /**
  * WsMessage - The base structure for all WebSocket messages
@@ -511,13 +1266,23 @@ export type WsMessageType =
  * Every WebSocket message has:
  *   - type: What kind of message (see WsMessageType)
  *   - payload: The actual data (varies by type)
+ *   - seq: Position in the session's event stream (server → client only)
  *
  * Example:
  *   { type: "SEND_MESSAGE", payload: { content: "Hello!" } }
+ *
+ * Sequence numbers:
+ *   Session events (new messages, completed AI replies, mode changes)
+ *   are numbered 1, 2, 3... per session. Clients remember the highest
+ *   seq they have seen and send it as lastSeq when they reconnect, so
+ *   the server can replay only what they missed.
+ *   Typing indicators and AI_RESPONSE_CHUNKs have no seq; they are not
+ *   replayed (a missed stream is covered by AI_RESPONSE_COMPLETE).
  */
 export interface WsMessage {
   type: WsMessageType;
   payload: unknown;
+  seq?: number;
 }
 
 /**
@@ -528,6 +1293,9 @@ export interface WsMessage {
  *   - sessionId: Which chat to join
  *   - isAdmin: Is this an admin joining? (optional)
  *   - adminKey: Admin API key for verification (optional)
+ *   - lastSeq: Last seq seen before a disconnect (optional)
+ *   - visitorToken: Proves who the visitor is when the cookie can't
+ *     (the embedded widget; optional)
  *
  * Admins can see all chats; regular users only see their own.
  */
@@ -535,6 +1303,42 @@ export interface WsJoinSessionPayload {
   sessionId: string;
   isAdmin?: boolean;
   adminKey?: string;
+  lastSeq?: number;
+  visitorToken?: string;
+}
+
+/**
+ * WsSessionJoinedPayload - Full session state sent on join
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - session: The chat session
+ *   - messages: Its whole history
+ *   - seq: The session's latest seq; events after it arrive live
+ *
+ * Sent on first join, or on reconnect when the missed events are no
+ * longer available for replay.
+ */
+export interface WsSessionJoinedPayload {
+  session: ChatSession;
+  messages: ChatMessage[];
+  seq: number;
+}
+
+/**
+ * WsSessionResumedPayload - Reconnect succeeded without a full reload
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - session: The chat session (mode may have changed meanwhile)
+ *   - seq: The session's latest seq
+ *
+ * The events the client missed (lastSeq + 1 ... seq) follow as normal
+ * messages carrying their original seq.
+ */
+export interface WsSessionResumedPayload {
+  session: ChatSession;
+  seq: number;
 }
 
 /**
@@ -542,6 +1346,76 @@ export interface WsJoinSessionPayload {
  */
 export interface WsSendMessagePayload {
   content: string;
+  clientMessageId?: string;
+  attachmentIds?: string[];
+  // Admin only: send the reply in the visitor's language
+  translate?: boolean;
+}
+
+/**
+ * WsSetSessionModePayload - Admin switching who answers the visitor
+ */
+export interface WsSetSessionModePayload {
+  mode: ChatSessionMode;
+}
+
+/**
+ * WsSessionModeChangedPayload - Broadcast when the mode or handoff
+ * request changes
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - mode: The session's current mode
+ *   - humanRequestedAt: When the visitor asked for Marin (ISO string),
+ *                       or null if there is no open request
+ */
+export interface WsSessionModeChangedPayload {
+  mode: ChatSessionMode;
+  humanRequestedAt: string | null;
+}
+
+/**
+ * WsSessionClosedPayload - Broadcast when the session is closed
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - reason: Why it was closed (see ChatCloseReason)
+ *
+ * Comes right after the MESSAGE_RECEIVED carrying the SYSTEM notice
+ * about it. No more messages can be sent to the session.
+ */
+export interface WsSessionClosedPayload {
+  reason: ChatCloseReason;
+}
+
+/**
+ * WsJoinInboxPayload - Admin subscribing to the inbox
+ *
+ * Uses the same admin key check as joining a session as admin.
+ */
+export interface WsJoinInboxPayload {
+  adminKey: string;
+}
+
+/**
+ * WsInboxJoinedPayload - Inbox state sent after JOIN_INBOX
+ */
+export interface WsInboxJoinedPayload {
+  sessions: InboxSession[];
+}
+
+/**
+ * WsInboxEventPayload - Data for every INBOX_* event
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - session: The session's up-to-date inbox entry; clients replace
+ *              their copy with it
+ *   - message: The new message (INBOX_NEW_MESSAGE only)
+ */
+export interface WsInboxEventPayload {
+  session: InboxSession;
+  message?: ChatMessage;
 }
 
 /**
@@ -551,6 +1425,35 @@ export interface WsMessageReceivedPayload {
   message: ChatMessage;
 }
 
+/**
+ * WsAIResponseChunkPayload - One streamed piece of an AI reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - streamId: Identifies the reply being streamed (same for every chunk)
+ *   - delta: Text to append to what has been received so far
+ */
+export interface WsAIResponseChunkPayload {
+  streamId: string;
+  delta: string;
+}
+
+/**
+ * WsAIResponseCompletePayload - End of a streamed AI reply
+ *
+ * PSEUDOCODE:
+ * -----------
+ *   - streamId: The stream that just finished
+ *   - message: The full reply as saved in the database
+ *              (null if nothing was generated)
+ *
+ * Clients should replace the in-progress text with this message.
+ */
+export interface WsAIResponseCompletePayload {
+  streamId: string;
+  message: ChatMessage | null;
+}
+
 /**
  * WsErrorPayload - Data when an error occurs
  *
@@ -558,10 +1461,13 @@ export interface WsMessageReceivedPayload {
  * -----------
  *   - code: Machine-readable error code (e.g., "SESSION_NOT_FOUND")
  *   - message: Human-readable explanation
+ *   - clientMessageId: The send that failed, when the error is about one
+ *                      (e.g. "MESSAGE_BLOCKED" by moderation)
  */
 export interface WsErrorPayload {
   code: string;
   message: string;
+  clientMessageId?: string;
 }
 
 // ============================================